@@ -9,6 +9,7 @@ declare module "node-nlp" {
       right: string
     ): void;
     addAfterCondition(lang: string, entity: string, after: string): void;
+    addBeforeCondition(lang: string, entity: string, before: string): void;
     train(): Promise<void>;
     process(lang: string, utterance: string): Promise<any>;
     save(filename?: string): void;
@@ -3,8 +3,19 @@ import path from "path";
 
 interface TestStep {
   keyword: string;
+  // Given/When/Then that And, But and * steps stand for
+  effectiveKeyword?: string;
   text: string;
   line: number;
+  dataTable?: {
+    rows: string[][];
+    line: number;
+  };
+  docString?: {
+    content: string;
+    mediaType?: string;
+    line: number;
+  };
 }
 
 interface StepResult {
@@ -23,20 +34,52 @@ interface StepResult {
   }[];
 }
 
+interface HookResult {
+  type: string;
+  name?: string;
+  status: string;
+  duration: number;
+  error?: {
+    name: string;
+    message: string;
+    stack: string;
+  };
+  step?: TestStep;
+}
+
 interface ScenarioResult {
   scenario: {
     name: string;
     steps: TestStep[];
     tags: string[];
     line: number;
+    ruleIndex?: number;
+    outline?: {
+      name: string;
+      line: number;
+      examplesName?: string;
+      rowIndex: number;
+      parameters: { [key: string]: string };
+    };
   };
   steps: StepResult[];
+  hooks?: HookResult[];
   status: string;
   duration: number;
   startTime: string;
   endTime: string;
   videoPath?: string;
   tracePath?: string;
+  variables?: { [key: string]: string };
+  heals?: Array<{
+    registry: string;
+    key: string;
+    element: string;
+    from: string;
+    to: string;
+    strategy: string;
+    timestamp: string;
+  }>;
 }
 
 interface FeatureResult {
@@ -49,19 +92,37 @@ interface FeatureResult {
       steps: TestStep[];
       line: number;
     };
+    rules?: {
+      name: string;
+      background?: {
+        steps: TestStep[];
+        line: number;
+      };
+    }[];
   };
+  rules?: string[];
   scenarios: ScenarioResult[];
+  hooks?: HookResult[];
   status: string;
+  parseError?: {
+    message: string;
+    filePath?: string;
+    line: number;
+    column: number;
+    snippet: string;
+  };
   duration: number;
 }
 
 interface TestReport {
   features: FeatureResult[];
+  hooks?: HookResult[];
   summary: {
     total: number;
     passed: number;
     failed: number;
     skipped: number;
+    errored?: number;
     duration: number;
   };
   startTime: string;
@@ -94,6 +155,10 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
     return `${seconds}s`;
   };
 
+  // Escape text that may contain markup such as <placeholder> tokens
+  const escapeHtml = (text: string): string =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
   // Format timestamp
   const formatTimestamp = (timestamp: string): string => {
     return new Date(timestamp).toLocaleString();
@@ -136,6 +201,81 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
       .join("");
   };
 
+  // Generate HTML for failed hooks; passing hooks stay in the JSON report only
+  const generateHooksHtml = (hooks?: HookResult[]): string => {
+    const failedHooks = (hooks || []).filter((h) => h.status === "failed");
+    if (failedHooks.length === 0) return "";
+
+    return failedHooks
+      .map(
+        (hook) => `
+        <div class="hook-item border-start border-3 border-danger ps-3 mb-2">
+            <div class="d-flex align-items-center gap-2">
+                <span class="badge bg-danger">✗</span>
+                <span class="fw-medium">${hook.type} hook${
+          hook.name ? ` "${escapeHtml(hook.name)}"` : ""
+        }</span>
+                ${
+                  hook.step
+                    ? `<small class="text-muted">(${hook.step.keyword} ${escapeHtml(
+                        hook.step.text
+                      )})</small>`
+                    : ""
+                }
+                <small class="text-muted ms-auto">${hook.duration}ms</small>
+            </div>
+            ${
+              hook.error
+                ? `<div class="mt-2 p-3 bg-danger-subtle border border-danger-subtle rounded">
+                    <h6 class="text-danger mb-2">${escapeHtml(
+                      hook.error.name
+                    )}</h6>
+                    <pre class="text-danger mb-0" style="font-size: 0.875rem; white-space: pre-wrap;">${escapeHtml(
+                      hook.error.message
+                    )}</pre>
+                </div>`
+                : ""
+            }
+        </div>
+        `
+      )
+      .join("");
+  };
+
+  // Render a step keyword; And, But and * also show the keyword they stand for
+  const generateKeywordHtml = (step: TestStep): string =>
+    step.effectiveKeyword && step.effectiveKeyword !== step.keyword
+      ? `<span class="fw-medium" title="${step.effectiveKeyword}">${step.keyword}</span>
+                <small class="text-muted">(${step.effectiveKeyword})</small>`
+      : `<span class="fw-medium">${step.keyword}</span>`;
+
+  // Render a step's data table or docstring argument
+  const generateStepArgumentHtml = (step: TestStep): string => {
+    if (step.dataTable) {
+      const rowsHtml = step.dataTable.rows
+        .map(
+          (cells) =>
+            `<tr>${cells
+              .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+              .join("")}</tr>`
+        )
+        .join("");
+      return `
+        <table class="table table-sm table-bordered w-auto mt-2 mb-0">
+            <tbody>${rowsHtml}</tbody>
+        </table>
+        `;
+    }
+    if (step.docString) {
+      return `
+        <pre class="bg-light border rounded p-2 mt-2 mb-0" style="font-size: 0.875rem;">${escapeHtml(
+          step.docString.content
+        )}</pre>
+        `;
+    }
+    return "";
+  };
+
   const generateStepHtml = (step: StepResult): string => {
     const statusClass =
       step.status === "passed"
@@ -156,16 +296,18 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
         `;
     }
 
+    const argumentHtml = generateStepArgumentHtml(step.step);
     const screenshotHtml =
       step.status === "failed" ? generateScreenshotHtml(step.embeddings) : "";
     return `
         <div class="step-item border-start border-3 border-${statusClass} ps-3 mb-2">
             <div class="d-flex align-items-center gap-2">
                 <span class="badge bg-${statusClass}">${statusIcon}</span>
-                <span class="fw-medium">${step.step.keyword}</span>
-                <span>${step.step.text}</span>
+                ${generateKeywordHtml(step.step)}
+                <span>${escapeHtml(step.step.text)}</span>
                 <small class="text-muted ms-auto">${step.duration}ms</small>
             </div>
+            ${argumentHtml}
             ${errorHtml}
             ${screenshotHtml}
         </div>
@@ -218,6 +360,76 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
         `
       : "";
 
+    const outline = scenario.scenario.outline;
+    const outlineHtml = outline
+      ? `
+            <small class="text-muted d-block">
+                <i class="bi bi-table"></i> Outline: ${escapeHtml(outline.name)}${
+          outline.examplesName
+            ? ` | Examples: ${escapeHtml(outline.examplesName)}`
+            : ""
+        } | ${Object.entries(outline.parameters)
+          .map(([key, value]) => escapeHtml(`${key}=${value}`))
+          .join(", ")}
+            </small>
+        `
+      : "";
+
+    // Variables stored by "remember ... as ..." steps
+    const variablesHtml = scenario.variables
+      ? `
+            <details class="mt-2">
+                <summary class="text-muted small"><i class="bi bi-braces"></i> Variables (${
+                  Object.keys(scenario.variables).length
+                })</summary>
+                <table class="table table-sm table-bordered mt-2 mb-0 small">
+                    <tbody>
+                        ${Object.entries(scenario.variables)
+                          .map(
+                            ([name, value]) => `
+                        <tr>
+                            <th class="w-25"><code>{${escapeHtml(name)}}</code></th>
+                            <td style="white-space: pre-wrap;">${escapeHtml(value)}</td>
+                        </tr>`
+                          )
+                          .join("")}
+                    </tbody>
+                </table>
+            </details>
+        `
+      : "";
+
+    // Registry selectors that stopped matching and were replaced
+    const healsHtml = scenario.heals
+      ? `
+            <details class="mt-2">
+                <summary class="text-warning small"><i class="bi bi-bandaid"></i> Healed selectors (${
+                  scenario.heals.length
+                })</summary>
+                <table class="table table-sm table-bordered mt-2 mb-0 small">
+                    <thead>
+                        <tr><th>Element</th><th>Stale selector</th><th>Now</th><th>How</th></tr>
+                    </thead>
+                    <tbody>
+                        ${scenario.heals
+                          .map(
+                            (heal) => `
+                        <tr>
+                            <td>${escapeHtml(heal.element)}<br><small class="text-muted">${escapeHtml(
+                              `${heal.registry}.json: ${heal.key}`
+                            )}</small></td>
+                            <td><code>${escapeHtml(heal.from)}</code></td>
+                            <td><code>${escapeHtml(heal.to)}</code></td>
+                            <td>${escapeHtml(heal.strategy)}</td>
+                        </tr>`
+                          )
+                          .join("")}
+                    </tbody>
+                </table>
+            </details>
+        `
+      : "";
+
     // Auto-expand failed scenarios
     const shouldExpand = scenario.status === "failed";
 
@@ -233,9 +445,9 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
                           shouldExpand ? "down" : "right"
                         } chevron-icon"></i> 
                         </button>
-                        <span class="badge bg-${statusClass} fs-6">${statusIcon}</span> <h6 class="mb-0">${
+                        <span class="badge bg-${statusClass} fs-6">${statusIcon}</span> <h6 class="mb-0">${escapeHtml(
       scenario.scenario.name
-    }</h6>
+    )}</h6>
                     </div>
                     <small class="text-muted">
                         Duration: ${formatDuration(scenario.duration)} |
@@ -247,9 +459,13 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
               shouldExpand ? "show" : ""
             }" id="${collapseId}"> 
                 <div class="card-body">
+                    ${outlineHtml}
+                    ${generateHooksHtml(scenario.hooks)}
                     <div class="steps-container">
                         ${stepsHtml}
                     </div> 
+                    ${variablesHtml}
+                    ${healsHtml}
                     ${videoHtml}
                     ${traceHtml}
                 </div>
@@ -258,6 +474,29 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
         `;
   };
 
+  // Generate background steps HTML for a feature or rule
+  const generateBackgroundHtml = (
+    title: string,
+    background?: { steps: TestStep[] }
+  ): string =>
+    background
+      ? `
+            <div class="background-steps alert alert-info">
+                <h6 class="mb-2"><i class="bi bi-arrow-clockwise"></i> ${title}</h6>
+                ${background.steps
+                  .map(
+                    (step) => `
+                    <div class="d-flex gap-2">
+                        ${generateKeywordHtml(step)}
+                        <span>${escapeHtml(step.text)}</span>
+                    </div>
+                    `
+                  )
+                  .join("")}
+            </div>
+        `
+      : "";
+
   //   Generate feature HTML with collapse functionality
   const generateFeatureHtml = (
     feature: FeatureResult,
@@ -266,38 +505,62 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
     const statusClass =
       feature.status === "passed"
         ? "success"
-        : feature.status === "failed"
+        : feature.status === "failed" || feature.status === "errored"
         ? "danger"
         : "secondary";
     const featureId = `feature-${featureIndex}`;
     const collapseId = `collapse-${featureId}`;
 
-    const scenariosHtml = feature.scenarios
-      .map((scenario, scenarioIndex) =>
-        generateScenarioHtml(scenario, featureIndex, scenarioIndex)
-      )
+    const backgroundHtml = generateBackgroundHtml(
+      "Background Steps",
+      feature.feature.background
+    );
+
+    // Scenarios outside any rule come first, then one group per rule
+    const renderScenarios = (ruleIndex?: number): string =>
+      feature.scenarios
+        .map((scenario, scenarioIndex) =>
+          scenario.scenario.ruleIndex === ruleIndex
+            ? generateScenarioHtml(scenario, featureIndex, scenarioIndex)
+            : ""
+        )
+        .join("");
+
+    const rulesHtml = (feature.rules || [])
+      .map((ruleName, ruleIndex) => {
+        const rule = feature.feature.rules?.[ruleIndex];
+        return `
+            <div class="rule-section mb-3 ps-3 border-start border-2">
+                <h5 class="mb-2"><i class="bi bi-diagram-3"></i> Rule: ${escapeHtml(ruleName)}</h5>
+                ${generateBackgroundHtml(
+                  "Rule Background Steps",
+                  rule?.background
+                )}
+                ${renderScenarios(ruleIndex)}
+            </div>
+        `;
+      })
       .join("");
 
-    const backgroundHtml = feature.feature.background
+    const scenariosHtml = renderScenarios(undefined) + rulesHtml;
+
+    // Features that could not be parsed show the error and source snippet
+    const parseErrorHtml = feature.parseError
       ? `
-            <div class="background-steps alert alert-info">
-                <h6 class="mb-2"><i class="bi bi-arrow-clockwise"></i> Background Steps</h6>
-                ${feature.feature.background.steps
-                  .map(
-                    (step) => `
-                    <div class="d-flex gap-2">
-                        <span class="fw-medium">${step.keyword}</span>
-                        <span>${step.text}</span>
-                    </div>
-                    `
-                  )
-                  .join("")}
+            <div class="alert alert-danger mb-3">
+                <strong>Parse error at line ${feature.parseError.line}, column ${
+          feature.parseError.column
+        }:</strong> ${escapeHtml(feature.parseError.message)}
+                <pre class="bg-light p-2 mt-2 mb-0 rounded"><code>${escapeHtml(
+                  feature.parseError.snippet
+                )}</code></pre>
             </div>
         `
       : "";
 
-    // Auto-expand failed features
-    const shouldExpand = feature.status === "failed";
+    // Auto-expand failed and errored features
+    const shouldExpand =
+      feature.status === "failed" || feature.status === "errored";
     return `
         <div class="feature-section mb-4">
             <div class="feature-header p-3 bg-light border rounded-top">
@@ -322,7 +585,11 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
                 </div>
                 <div class="text-end">
                     <div class="badge bg-${statusClass} fs-6 mb-1">
-                        ${feature.scenarios.length} scenario(s)
+                        ${
+                          feature.status === "errored"
+                            ? "Parse error"
+                            : `${feature.scenarios.length} scenario(s)`
+                        }
                     </div>
                     <div>
                       <small class="text-muted">Duration: ${formatDuration(
@@ -335,6 +602,8 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
               shouldExpand ? "show" : ""
             }" id="${collapseId}"> 
                 <div class="feature-body border border-top-0 rounded-bottom p-3"> 
+                    ${parseErrorHtml}
+                    ${generateHooksHtml(feature.hooks)}
                     ${backgroundHtml}
                     ${scenariosHtml}
                 </div>
@@ -531,6 +800,12 @@ function generateHtmlReport(reportPath: string, outputPath: string): void {
                     <h2 class=" mb-4">
                         <i class="bi bi-activity"></i> Test Results
                     </h2>
+                    ${
+                      reportData.summary.errored
+                        ? `<div class="alert alert-danger"><i class="bi bi-exclamation-octagon"></i> ${reportData.summary.errored} feature file(s) could not be parsed and were not run.</div>`
+                        : ""
+                    }
+                    ${generateHooksHtml(reportData.hooks)}
                     ${reportData.features
                       .map((feature, index) =>
                         generateFeatureHtml(feature, index)
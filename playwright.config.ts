@@ -0,0 +1,8 @@
+import { defineConfig } from "@playwright/test";
+
+// Unit tests for the parser, registries and other logic that runs without
+// a browser. Feature files are run by run-tests.ts, not by this config.
+export default defineConfig({
+  testDir: "./tests/unit",
+  reporter: "list",
+});
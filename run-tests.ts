@@ -1,5 +1,7 @@
 import { runAllFeatures, runSingleFeature } from "./src/runner/runner";
-import { ExecutionOptions } from "./src/types/feature-types";
+import { ExecutionOptions, RegistryMode } from "./src/types/feature-types";
+import { FeatureParser } from "./src/parser/feature-parser";
+import { createTagFilter } from "./src/utils/tag-expression";
 import { environmentManager } from "./src/utils/environment-manager";
 import Logger from "./src/utils/logger";
 import { trainModel } from "./src/nlp/nlp-processor";
@@ -11,25 +13,61 @@ async function main() {
   const command = args.find((arg) => arg === "--single") ? "single" : "all";
   const envArg = args.find((arg) => arg.startsWith("--env="));
   const environment = envArg ? envArg.split("=")[1] : "qa";
+  // --tags accepts a comma separated list or a tag expression,
+  // e.g. --tags="@smoke and not (@wip or @flaky)"
   const tagsArg = args.find((arg) => arg.startsWith("--tags="));
   const tags = tagsArg ? tagsArg.split("=")[1].split(",") : [];
   const excludeTagArgs = args.find((arg) => arg.startsWith("--excludeTags="));
   const excludeTags = excludeTagArgs
     ? excludeTagArgs.split("=")[1].split(",")
     : [];
-  const featurePath =
-    args.find((arg) => !arg.startsWith("--")) || "./src/features";
+  // Folder with custom step definitions; overrides STEPS_DIR
+  const stepsArg = args.find((arg) => arg.startsWith("--steps="));
+  // learn (default), readonly or strict; overrides REGISTRY_MODE
+  const registryModeArg = args.find((arg) =>
+    arg.startsWith("--registry-mode=")
+  );
+  // Feature directories, files, globs or "file.feature:line" targets
+  const featurePatterns = args.filter((arg) => !arg.startsWith("--"));
+  const featurePaths =
+    featurePatterns.length > 0 ? featurePatterns : ["./src/features"];
   const logger = new Logger();
 
   logger.info(`Running tests with environment: ${environment}`);
 
   try {
+    // Fail fast on malformed tag expressions
+    createTagFilter(tags, excludeTags);
+
+    if (args.includes("--check")) {
+      // Syntax check only: report every parse error, run nothing
+      const { features, errors } =
+        FeatureParser.parseFeaturesCollectingErrors(featurePaths);
+      errors.forEach((error) => logger.error(error.message));
+      logger.info(
+        `Checked ${features.length + errors.length} feature file(s): ${
+          errors.length
+        } with errors`
+      );
+      process.exit(errors.length > 0 ? 1 : 0);
+    }
+
     // Train the NLP model before parsing steps
     await trainModel();
     logger.info("NLP engine initialized.");
 
     // Load environment configuration
     const config = environmentManager.initialize(environment);
+    const registryMode = (
+      registryModeArg
+        ? registryModeArg.split("=")[1]
+        : config.REGISTRY_MODE || "learn"
+    ) as RegistryMode;
+    if (!["learn", "readonly", "strict"].includes(registryMode)) {
+      throw new Error(
+        `Invalid registry mode "${registryMode}" (expected learn, readonly or strict)`
+      );
+    }
 
     const options: ExecutionOptions = {
       environment,
@@ -40,6 +78,7 @@ async function main() {
       browser: config.BROWSER as "chromium" | "firefox" | "webkit",
       trace: config.ENABLE_TRACING as boolean,
       timeout: config.TIMEOUT as number,
+      pollingInterval: config.POLLING_INTERVAL as number,
       retries: config.RETRIES as number,
       tags,
       excludeTags: excludeTags,
@@ -49,6 +88,10 @@ async function main() {
       slowMotion: config.SLOW_MOTION as number,
       viewportWidth: config.VIEWPORT_WIDTH as number,
       viewportHeight: config.VIEWPORT_HEIGHT as number,
+      stepsDir: stepsArg
+        ? stepsArg.split("=")[1]
+        : (config.STEPS_DIR as string) || "./src/steps",
+      registryMode,
     };
     logger.info(
       `Execution Options: ${JSON.stringify(
@@ -58,6 +101,7 @@ async function main() {
           headless: options.headless,
           browser: options.browser,
           timeout: options.timeout,
+          pollingInterval: options.pollingInterval,
           retries: options.retries,
           tags: options.tags,
           excludeTags: options.excludeTags,
@@ -69,6 +113,8 @@ async function main() {
           slowMotion: options.slowMotion,
           viewportWidth: options.viewportWidth,
           viewportHeight: options.viewportHeight,
+          stepsDir: options.stepsDir,
+          registryMode: options.registryMode,
         },
         null,
         2
@@ -79,14 +125,13 @@ async function main() {
       const fileArg = args
         .find((arg) => arg.startsWith("--file="))
         ?.split("=")[1];
-      const singleFeaturePath = path.resolve(`${featurePath}/${fileArg}`);
+      const singleFeaturePath = path.resolve(`${featurePaths[0]}/${fileArg}`);
 
-      // Check if feature file exists
-      if (!fs.existsSync(singleFeaturePath)) {
+      // Check if feature file exists (ignoring any ":line" suffix)
+      if (!fs.existsSync(singleFeaturePath.replace(/(:\d+)+$/, ""))) {
         const availableFeatures = fs.existsSync("./src/features")
-          ? fs
-              .readdirSync("./src/features")
-              .filter((file) => file.endsWith(".feature"))
+          ? FeatureParser.resolveFeatureTargets(["./src/features"])
+              .map((target) => path.relative("./src/features", target.filePath))
               .join(", ")
           : "No features directory found";
         throw new Error(
@@ -111,8 +156,8 @@ async function main() {
       });
     } else {
       // Run all features
-      logger.info(`Running all features from: ${featurePath}`);
-      const report = await runAllFeatures(featurePath, options);
+      logger.info(`Running all features from: ${featurePaths.join(", ")}`);
+      const report = await runAllFeatures(featurePaths, options);
 
       logger.info(`\n=== Test Execution Summary ===`);
       logger.info(`Environment: ${environment}`);
@@ -120,10 +165,19 @@ async function main() {
       logger.info(`Passed: ${report.summary.passed}`);
       logger.info(`Failed: ${report.summary.failed}`);
       logger.info(`Skipped: ${report.summary.skipped}`);
+      logger.info(`Errored features: ${report.summary.errored || 0}`);
       logger.info(`Duration: ${report.summary.duration}ms`);
 
-      // Exit with error code if tests failed
-      process.exit(report.summary.failed > 0 ? 1 : 0);
+      // Exit with error code if tests or BeforeAll/AfterAll hooks failed,
+      // or a feature file could not be parsed
+      const hooksFailed = (report.hooks || []).some(
+        (hook) => hook.status === "failed"
+      );
+      process.exit(
+        report.summary.failed > 0 || hooksFailed || report.summary.errored
+          ? 1
+          : 0
+      );
     }
   } catch (error) {
     console.error("Test execution failed:", error);
@@ -1,9 +1,27 @@
 import { NlpManager } from "node-nlp";
 
+// Languages with a training corpus. Features written in other Gherkin
+// languages can still use custom step definitions.
+export const NLP_LANGUAGES = ["en", "de", "es"];
+
 // Export the manager so the Mapper file can use it for processing
-export const manager = new NlpManager({ languages: ["en"], forceNER: true });
+export const manager = new NlpManager({
+  languages: NLP_LANGUAGES,
+  forceNER: true,
+  nlu: { log: false },
+  // trainModel() retrains at startup, so the model is not saved to model.nlp
+  autoSave: false,
+});
 
 export async function trainModel(): Promise<void> {
+  trainEnglish();
+  trainGerman();
+  trainSpanish();
+
+  await manager.train();
+}
+
+function trainEnglish(): void {
   manager.addAfterCondition("en", "page", "is on");
   manager.addAfterCondition("en", "page", "to");
   manager.addBetweenCondition("en", "value", "Fill", "in");
@@ -16,18 +34,317 @@ export async function trainModel(): Promise<void> {
   manager.addAfterCondition("en", "element", "from");
   manager.addAfterCondition("en", "element", "Click");
   manager.addAfterCondition("en", "element", "should be visible");
+  manager.addAfterCondition("en", "element", "check");
+  manager.addAfterCondition("en", "element", "uncheck");
+  manager.addBeforeCondition("en", "element", "should");
 
   manager.addDocument("en", "is on the %page%", "navigate");
   manager.addDocument("en", "goes to %page%", "navigate");
   manager.addDocument("en", "Fill %value% in %element%", "fill");
+  manager.addDocument("en", "Fill the following fields", "fillTable");
+  manager.addDocument(
+    "en",
+    "fills in the form with the following",
+    "fillTable"
+  );
   manager.addDocument("en", "Click %element%", "click");
   manager.addDocument("en", "Select %value% from %element%", "select");
   manager.addDocument("en", "Check %value% from %element%", "check");
+  manager.addDocument("en", "check %element% checkbox", "check");
   manager.addDocument("en", "uncheck %value% from %element%", "uncheck");
+  manager.addDocument("en", "uncheck %element% checkbox", "uncheck");
   manager.addDocument("en", "Select %value% from %element% radio", "radio");
   manager.addDocument("en", "see a %message% message", "assertText");
+  manager.addDocument("en", "should see %message%", "assertText");
+  manager.addDocument("en", "user should see %message% text", "assertText");
   manager.addDocument("en", "should redirected to %page%", "assertUrl");
   manager.addDocument("en", "%element% should be visible", "assertVisible");
+  manager.addDocument("en", "%element% should be displayed", "assertVisible");
+  manager.addDocument(
+    "en",
+    "%element% should not be visible",
+    "assertNotVisible"
+  );
+  manager.addDocument("en", "%element% should be hidden", "assertNotVisible");
+  manager.addDocument(
+    "en",
+    "%element% should not be displayed",
+    "assertNotVisible"
+  );
+  manager.addDocument("en", "%element% should be checked", "assertChecked");
+  manager.addDocument(
+    "en",
+    "%element% checkbox should be checked",
+    "assertChecked"
+  );
+  manager.addDocument("en", "%element% should be unchecked", "assertUnchecked");
+  manager.addDocument(
+    "en",
+    "%element% should not be checked",
+    "assertUnchecked"
+  );
+  manager.addDocument(
+    "en",
+    "%element% should have text %value%",
+    "assertElementText"
+  );
+  manager.addDocument(
+    "en",
+    "the text of %element% should be %value%",
+    "assertElementText"
+  );
+  manager.addDocument(
+    "en",
+    "%element% should contain %value%",
+    "assertElementContains"
+  );
+  manager.addDocument(
+    "en",
+    "%element% should contain text %value%",
+    "assertElementContains"
+  );
+  manager.addDocument(
+    "en",
+    "%element% input should have value %value%",
+    "assertValue"
+  );
+  manager.addDocument(
+    "en",
+    "the value of %element% should be %value%",
+    "assertValue"
+  );
+  manager.addDocument("en", "%element% should be enabled", "assertEnabled");
+  manager.addDocument(
+    "en",
+    "%element% button should be enabled",
+    "assertEnabled"
+  );
+  manager.addDocument("en", "%element% should be disabled", "assertDisabled");
+  manager.addDocument(
+    "en",
+    "%element% button should be disabled",
+    "assertDisabled"
+  );
+  manager.addDocument(
+    "en",
+    "should see 3 %element% in the list",
+    "assertCount"
+  );
+  manager.addDocument("en", "should see 2 %element% buttons", "assertCount");
+  manager.addDocument("en", "there should be 5 %element%", "assertCount");
+  manager.addDocument(
+    "en",
+    "there should be 6 %element% listed",
+    "assertCount"
+  );
+  manager.addDocument("en", "page title should be %value%", "assertTitle");
+  manager.addDocument("en", "the title should be %value%", "assertTitle");
+  manager.addDocument("en", "page title should contain %value%", "assertTitle");
+  manager.addDocument(
+    "en",
+    "%element% should have attribute %attribute% with value %value%",
+    "assertAttribute"
+  );
+  manager.addDocument(
+    "en",
+    "%element% should have %attribute% attribute %value%",
+    "assertAttribute"
+  );
+  manager.addDocument("en", "press %value% in %element%", "press");
+  manager.addDocument("en", "presses %value% on %element%", "press");
+  manager.addDocument("en", "presses the Tab key", "press");
+  manager.addDocument("en", "press Escape", "press");
+  manager.addDocument("en", "hover over %element%", "hover");
+  manager.addDocument("en", "hover over the %element% menu", "hover");
+  manager.addDocument("en", "hovers on %element%", "hover");
+  manager.addDocument("en", "drag %element% to %value%", "dragAndDrop");
+  manager.addDocument(
+    "en",
+    "drag %element% to the %value% column",
+    "dragAndDrop"
+  );
+  manager.addDocument("en", "drags %element% onto %value%", "dragAndDrop");
+  manager.addDocument("en", "upload %value% to %element%", "upload");
+  manager.addDocument("en", "upload the %value% file to %element%", "upload");
+  manager.addDocument("en", "uploads file %value% in %element%", "upload");
+  manager.addDocument("en", "double-click %element%", "doubleClick");
+  manager.addDocument("en", "double click on %element%", "doubleClick");
+  manager.addDocument("en", "double clicks the row", "doubleClick");
+  manager.addDocument("en", "right-click %element%", "rightClick");
+  manager.addDocument("en", "right click on %element%", "rightClick");
+  manager.addDocument("en", "right clicks the file", "rightClick");
+  manager.addDocument("en", "wait until %element% disappears", "waitForHidden");
+  manager.addDocument(
+    "en",
+    "wait until the %element% spinner disappears",
+    "waitForHidden"
+  );
+  manager.addDocument("en", "wait for %element% to disappear", "waitForHidden");
+  manager.addDocument("en", "waits until %element% is hidden", "waitForHidden");
+  manager.addDocument("en", "wait for %element% to be hidden", "waitForHidden");
+  manager.addDocument(
+    "en",
+    "waits up to 500 ms for %element% to be hidden",
+    "waitForHidden"
+  );
+  manager.addDocument(
+    "en",
+    "wait up to 30 seconds for %element% to disappear",
+    "waitForHidden"
+  );
+  manager.addDocument("en", "wait until %element% appears", "waitForVisible");
+  manager.addDocument("en", "wait for %element% to appear", "waitForVisible");
+  manager.addDocument(
+    "en",
+    "waits until %element% is visible",
+    "waitForVisible"
+  );
+  manager.addDocument(
+    "en",
+    "wait up to 30 seconds for %element% to be visible",
+    "waitForVisible"
+  );
+  manager.addDocument(
+    "en",
+    "wait for %element% to contain %value%",
+    "waitForText"
+  );
+  manager.addDocument(
+    "en",
+    "wait for the %element% table to contain %value%",
+    "waitForText"
+  );
+  manager.addDocument(
+    "en",
+    "wait until %element% contains %value%",
+    "waitForText"
+  );
+  manager.addDocument(
+    "en",
+    "wait up to 30 seconds for %element% to contain %value%",
+    "waitForText"
+  );
+  manager.addDocument(
+    "en",
+    "remember the text of %element% as %value%",
+    "remember"
+  );
+  manager.addDocument(
+    "en",
+    "remembers the text of the %element% field as %value%",
+    "remember"
+  );
+  manager.addDocument(
+    "en",
+    "remember the value of %element% as %value%",
+    "remember"
+  );
+  manager.addDocument("en", "store the current URL as %value%", "remember");
+  manager.addDocument("en", "stores the page title as %value%", "remember");
+  manager.addDocument(
+    "en",
+    "saves the text of %element% as %value%",
+    "remember"
+  );
+  manager.addDocument("en", "switch to the new tab", "switchTab");
+  manager.addDocument("en", "switches to the newest tab", "switchTab");
+  manager.addDocument("en", "switch to the popup window", "switchTab");
+  manager.addDocument("en", "switch to the %value% tab", "switchTab");
+  manager.addDocument("en", "switch to tab 2", "switchTab");
+  manager.addDocument("en", "switches back to the original tab", "switchTab");
+  manager.addDocument("en", "close the current tab", "closeTab");
+  manager.addDocument("en", "closes the popup", "closeTab");
+  manager.addDocument("en", "close the %value% tab", "closeTab");
+  manager.addDocument("en", "accept the dialog", "acceptDialog");
+  manager.addDocument("en", "accepts the next confirmation", "acceptDialog");
+  manager.addDocument("en", "accept the alert", "acceptDialog");
+  manager.addDocument("en", "accept the prompt with %value%", "acceptDialog");
+  manager.addDocument("en", "dismiss the dialog", "dismissDialog");
+  manager.addDocument("en", "dismisses the next confirmation", "dismissDialog");
+  manager.addDocument("en", "cancel the prompt", "dismissDialog");
+  manager.addDocument(
+    "en",
+    "the dialog message should be %value%",
+    "assertDialog"
+  );
+  manager.addDocument("en", "the alert should say %value%", "assertDialog");
+  manager.addDocument(
+    "en",
+    "the dialog message should contain %value%",
+    "assertDialog"
+  );
+  manager.addDocument(
+    "en",
+    "the alert message should contain %value%",
+    "assertDialog"
+  );
+  manager.addDocument("en", "the %value% table should contain", "assertTable");
+  manager.addDocument(
+    "en",
+    "the %value% table should contain exactly",
+    "assertTable"
+  );
+  manager.addDocument(
+    "en",
+    "the table should contain these rows",
+    "assertTable"
+  );
+  manager.addDocument(
+    "en",
+    "the %value% grid should contain in order",
+    "assertTable"
+  );
+  manager.addDocument("en", "the table should have rows", "assertTable");
+  manager.addDocument("en", "table should contain exactly", "assertTable");
+  manager.addDocument("en", "grid should contain", "assertTable");
+  manager.addDocument("en", "remember the %element% as %value%", "remember");
+}
 
-  await manager.train();
+function trainGerman(): void {
+  manager.addAfterCondition("de", "page", "Seite");
+  manager.addBetweenCondition("de", "value", "gebe", "in");
+  manager.addBetweenCondition("de", "value", "trage", "in");
+  manager.addBetweenCondition("de", "value", "wähle", "in");
+  manager.addAfterCondition("de", "element", "in");
+  manager.addAfterCondition("de", "element", "auf");
+  manager.addAfterCondition("de", "message", "Meldung");
+  manager.addBeforeCondition("de", "element", "sollte");
+
+  manager.addDocument("de", "ist auf der Seite %page%", "navigate");
+  manager.addDocument("de", "öffne die Seite %page%", "navigate");
+  manager.addDocument("de", "gebe %value% in %element% ein", "fill");
+  manager.addDocument("de", "trage %value% in %element% ein", "fill");
+  manager.addDocument("de", "fülle die folgenden Felder aus", "fillTable");
+  manager.addDocument("de", "klicke auf %element%", "click");
+  manager.addDocument("de", "wähle %value% in %element% aus", "select");
+  manager.addDocument("de", "sehe die Meldung %message%", "assertText");
+  manager.addDocument(
+    "de",
+    "sollte zur Seite %page% weitergeleitet werden",
+    "assertUrl"
+  );
+  manager.addDocument("de", "%element% sollte sichtbar sein", "assertVisible");
+}
+
+function trainSpanish(): void {
+  manager.addAfterCondition("es", "page", "página");
+  manager.addBetweenCondition("es", "value", "escribo", "en");
+  manager.addBetweenCondition("es", "value", "selecciono", "en");
+  manager.addAfterCondition("es", "element", "en");
+  manager.addAfterCondition("es", "message", "mensaje");
+  manager.addBeforeCondition("es", "element", "debería");
+
+  manager.addDocument("es", "está en la página %page%", "navigate");
+  manager.addDocument("es", "voy a la página %page%", "navigate");
+  manager.addDocument("es", "escribo %value% en %element%", "fill");
+  manager.addDocument("es", "relleno los siguientes campos", "fillTable");
+  manager.addDocument("es", "hago clic en %element%", "click");
+  manager.addDocument("es", "selecciono %value% en %element%", "select");
+  manager.addDocument("es", "veo el mensaje %message%", "assertText");
+  manager.addDocument(
+    "es",
+    "debería ser redirigido a la página %page%",
+    "assertUrl"
+  );
+  manager.addDocument("es", "%element% debería estar visible", "assertVisible");
 }
@@ -1,6 +1,27 @@
 import * as fs from "fs";
 import * as path from "path";
-import { Feature, Scenario, Background, Step } from "../types/feature-types";
+import { globSync, hasMagic } from "glob";
+import {
+  Feature,
+  Scenario,
+  Background,
+  Rule,
+  Step,
+  Examples,
+  DataTable,
+  DocString,
+  FeatureTarget,
+} from "../types/feature-types";
+import { createTagFilter, TagExpression } from "../utils/tag-expression";
+import { GherkinParseError } from "./gherkin-parse-error";
+import {
+  DEFAULT_LANGUAGE,
+  GherkinDialect,
+  getDialect,
+  getSupportedLanguages,
+} from "./gherkin-dialect";
+
+type ParsedLine = { text: string; raw: string; number: number };
 
 export class FeatureParser {
   /**
@@ -15,36 +36,221 @@ export class FeatureParser {
   }
 
   /**
-   * Parse multiple feature files from a directory
+   * Parse all feature files under a directory, including subfolders
    */
   static parseFeatureDirectory(dirPath: string): Feature[] {
-    const features: Feature[] = [];
-    const files = fs.readdirSync(dirPath);
-    for (const file of files) {
-      if (!file.endsWith(".feature")) {
-        continue;
+    return this.findFeatureFiles(dirPath).map((file) =>
+      this.parseFeatureFile(file)
+    );
+  }
+
+  /**
+   * Parse features from a list of files, directories or glob patterns.
+   * A "file.feature:42" entry keeps only the scenario at line 42.
+   */
+  static parseFeatures(patterns: string[]): Feature[] {
+    return this.resolveFeatureTargets(patterns).map((target) => {
+      const feature = this.parseFeatureFile(target.filePath);
+      return target.lines.length > 0
+        ? this.filterScenariosByLines(feature, target.lines)
+        : feature;
+    });
+  }
+
+  /**
+   * Expand CLI feature arguments into feature files with optional line filters.
+   * Files matched by several patterns are merged into a single target.
+   */
+  static resolveFeatureTargets(patterns: string[]): FeatureTarget[] {
+    const targets = new Map<string, FeatureTarget>();
+
+    for (const pattern of patterns) {
+      const { location, lines } = this.splitLineSuffix(pattern);
+      let files: string[];
+
+      if (hasMagic(location, { windowsPathsNoEscape: true })) {
+        files = globSync(location, {
+          absolute: true,
+          nodir: true,
+          windowsPathsNoEscape: true,
+        }).filter((file) => file.endsWith(".feature"));
+      } else if (
+        fs.existsSync(location) &&
+        fs.statSync(location).isDirectory()
+      ) {
+        files = this.findFeatureFiles(location);
+      } else if (fs.existsSync(location)) {
+        files = [path.resolve(location)];
+      } else {
+        throw new Error(`Feature file or directory not found: ${location}`);
+      }
+
+      if (files.length === 0) {
+        throw new Error(`No feature files matched: ${pattern}`);
+      }
+
+      for (const filePath of files.sort()) {
+        const existing = targets.get(filePath);
+        if (!existing) {
+          targets.set(filePath, { filePath, lines: [...lines] });
+        } else if (existing.lines.length > 0) {
+          // An unfiltered pattern for the same file wins over line filters
+          existing.lines =
+            lines.length > 0 ? [...existing.lines, ...lines] : [];
+        }
       }
-      const featureFile = path.join(dirPath, file);
-      features.push(this.parseFeatureFile(featureFile));
     }
-    return features;
+
+    return Array.from(targets.values());
+  }
+
+  /**
+   * Recursively find .feature files under a directory
+   */
+  private static findFeatureFiles(dirPath: string): string[] {
+    return globSync("**/*.feature", {
+      cwd: dirPath,
+      absolute: true,
+      nodir: true,
+    }).sort();
   }
 
   /**
-   * Parse feature content from string
+   * Split "path/to/file.feature:12:40" into the path and line numbers
+   */
+  private static splitLineSuffix(pattern: string): {
+    location: string;
+    lines: number[];
+  } {
+    const match = pattern.match(/^(.*?\.feature)((?::\d+)+)$/);
+    if (!match) {
+      return { location: pattern, lines: [] };
+    }
+    return {
+      location: match[1],
+      lines: match[2].split(":").filter(Boolean).map(Number),
+    };
+  }
+
+  /**
+   * Keep the scenarios at the given lines. A line can point at a single
+   * Examples row, or anywhere in a Scenario or Scenario Outline (all rows),
+   * from its header up to the next scenario, Rule or rule Background.
+   */
+  private static filterScenariosByLines(
+    feature: Feature,
+    lines: number[]
+  ): Feature {
+    const declaration = (scenario: Scenario) =>
+      scenario.outline?.line ?? scenario.line;
+    const boundaries = [
+      ...feature.scenarios.map(declaration),
+      ...feature.rules.flatMap((rule) => [
+        rule.line,
+        ...(rule.background ? [rule.background.line] : []),
+      ]),
+    ];
+    const selected = new Set<Scenario>();
+    for (const line of lines) {
+      const rows = feature.scenarios.filter(
+        (scenario) => scenario.outline && scenario.line === line
+      );
+      // The last scenario, rule or rule background starting at or before it
+      const start = Math.max(
+        ...boundaries.filter((boundary) => boundary <= line)
+      );
+      const matches =
+        rows.length > 0
+          ? rows
+          : feature.scenarios.filter(
+              (scenario) => declaration(scenario) === start
+            );
+      matches.forEach((scenario) => selected.add(scenario));
+    }
+    const scenarios = feature.scenarios.filter((scenario) =>
+      selected.has(scenario)
+    );
+    if (scenarios.length === 0) {
+      throw new GherkinParseError(
+        `No scenario found at line(s) ${lines.join(", ")}`,
+        { filePath: feature.filePath, line: lines[0], column: 1 },
+        []
+      );
+    }
+    return { ...feature, scenarios };
+  }
+
+  /**
+   * Parse feature content from string.
+   * Throws GherkinParseError when the content is not valid Gherkin.
    */
   static parseFeatureContent(content: string, filePath: string): Feature {
-    const lines = content.split("\n").map((line, index) => ({
+    const lines = content.split(/\r?\n/).map((line, index) => ({
       text: line.trim(),
+      raw: line,
       number: index + 1,
     }));
 
+    try {
+      return this.parseLines(lines, filePath);
+    } catch (error) {
+      // Helpers only know line numbers; attach the file here
+      if (error instanceof GherkinParseError && !error.filePath) {
+        throw error.inFile(filePath);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse features like parseFeatures, but keep going past malformed files.
+   * Parse errors are returned together instead of stopping at the first one;
+   * other errors reading a file are reported the same way, at its first line.
+   */
+  static parseFeaturesCollectingErrors(patterns: string[]): {
+    features: Feature[];
+    errors: GherkinParseError[];
+  } {
+    const features: Feature[] = [];
+    const errors: GherkinParseError[] = [];
+
+    for (const target of this.resolveFeatureTargets(patterns)) {
+      try {
+        const feature = this.parseFeatureFile(target.filePath);
+        features.push(
+          target.lines.length > 0
+            ? this.filterScenariosByLines(feature, target.lines)
+            : feature
+        );
+      } catch (error) {
+        errors.push(
+          error instanceof GherkinParseError
+            ? error
+            : new GherkinParseError(
+                (error as Error).message,
+                { filePath: target.filePath, line: 1, column: 1 },
+                []
+              )
+        );
+      }
+    }
+
+    return { features, errors };
+  }
+
+  private static parseLines(lines: ParsedLine[], filePath: string): Feature {
+    // Keywords follow the "# language: xx" header, English by default
+    const language = this.detectLanguage(lines);
+    const dialect = getDialect(language);
+
     let currentLine = 0;
     const feature: Feature = {
       name: "",
       scenarios: [],
+      rules: [],
       tags: [],
       filePath,
+      language,
     };
 
     // Parse feature tags and name
@@ -53,10 +259,16 @@ export class FeatureParser {
 
       if (line.text.startsWith("@")) {
         feature.tags.push(...this.parseTags(line.text));
-      } else if (line.text.startsWith("Feature:")) {
-        feature.name = line.text.substring(8).trim();
+      } else if (this.hasHeader(line.text, dialect.feature)) {
+        feature.name = this.headerName(line.text);
         currentLine++;
         break;
+      } else if (line.text !== "" && !line.text.startsWith("#")) {
+        throw this.parseError(
+          lines,
+          line,
+          `Expected '${dialect.feature[0]}:' but found "${line.text}"`
+        );
       }
       currentLine++;
     }
@@ -66,9 +278,11 @@ export class FeatureParser {
       const line = lines[currentLine];
       if (
         line.text == "" ||
-        line.text.startsWith("Background: ") ||
+        this.isStepKeyword(line.text, dialect) ||
+        this.hasHeader(line.text, dialect.background) ||
         line.text.startsWith("@") ||
-        line.text.startsWith("Scenario:")
+        this.hasHeader(line.text, dialect.rule) ||
+        this.isScenarioHeader(line.text, dialect)
       ) {
         break;
       }
@@ -81,24 +295,59 @@ export class FeatureParser {
       currentLine++;
     }
 
-    // Parse background and scenarios
+    // Parse rules, backgrounds and scenarios. A Background belongs to the
+    // most recent Rule, or to the feature when no Rule has been seen yet.
+    let currentRule: Rule | undefined;
     while (currentLine < lines.length) {
       const line = lines[currentLine];
 
-      if (line.text.startsWith("Background:")) {
+      if (this.hasHeader(line.text, dialect.background)) {
         const { background, nextLine } = this.parseBackground(
           lines,
-          currentLine
+          currentLine,
+          dialect
         );
-        feature.background = background;
+        if (currentRule) {
+          currentRule.background = background;
+        } else {
+          feature.background = background;
+        }
+        currentLine = nextLine;
+      } else if (
+        this.hasHeader(line.text, dialect.rule) ||
+        (line.text.startsWith("@") &&
+          this.hasHeader(this.peekAfterTags(lines, currentLine), dialect.rule))
+      ) {
+        const { rule, nextLine } = this.parseRule(lines, currentLine, dialect);
+        feature.rules.push(rule);
+        currentRule = rule;
         currentLine = nextLine;
       } else if (
         line.text.startsWith("@") ||
-        line.text.startsWith("Scenario:")
+        this.isScenarioHeader(line.text, dialect)
       ) {
-        const { scenario, nextLine } = this.parseScenario(lines, currentLine);
-        feature.scenarios.push(scenario);
+        const { scenarios, nextLine } = this.parseScenario(
+          lines,
+          currentLine,
+          dialect
+        );
+        if (currentRule) {
+          const ruleIndex = feature.rules.length - 1;
+          scenarios.forEach((scenario) => (scenario.ruleIndex = ruleIndex));
+        }
+        feature.scenarios.push(...scenarios);
         currentLine = nextLine;
+      } else if (
+        this.isStepKeyword(line.text, dialect) ||
+        line.text.startsWith("|") ||
+        this.isDocStringDelimiter(line.text) ||
+        this.hasHeader(line.text, dialect.examples)
+      ) {
+        throw this.parseError(
+          lines,
+          line,
+          `Unexpected "${line.text}": expected a ${dialect.scenario[0]}, ${dialect.background[0]} or ${dialect.rule[0]}`
+        );
       } else {
         currentLine++;
       }
@@ -107,12 +356,89 @@ export class FeatureParser {
     return feature;
   }
 
+  /**
+   * Read the "# language: xx" header. It must appear before any other
+   * content; comments and blank lines may precede it.
+   */
+  private static detectLanguage(lines: ParsedLine[]): string {
+    for (const line of lines) {
+      if (line.text === "") continue;
+      if (!line.text.startsWith("#")) break;
+
+      const match = line.text.match(/^#\s*language\s*:\s*(\S+)\s*$/);
+      if (match) {
+        if (!getSupportedLanguages().includes(match[1])) {
+          throw this.parseError(
+            lines,
+            line,
+            `Unknown Gherkin language "${match[1]}"`,
+            line.raw.lastIndexOf(match[1]) + 1
+          );
+        }
+        return match[1];
+      }
+    }
+    return DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Parse a Rule header: its tags, name and description
+   */
+  private static parseRule(
+    lines: ParsedLine[],
+    startLine: number,
+    dialect: GherkinDialect
+  ): { rule: Rule; nextLine: number } {
+    let currentLine = startLine;
+    const tags: string[] = [];
+
+    while (
+      currentLine < lines.length &&
+      lines[currentLine].text.startsWith("@")
+    ) {
+      tags.push(...this.parseTags(lines[currentLine].text));
+      currentLine++;
+    }
+
+    const ruleLine = lines[currentLine];
+    const rule: Rule = {
+      name: this.headerName(ruleLine.text),
+      tags,
+      line: ruleLine.number,
+    };
+
+    currentLine++;
+
+    // Parse rule description
+    while (currentLine < lines.length) {
+      const line = lines[currentLine];
+      if (
+        line.text === "" ||
+        line.text.startsWith("#") ||
+        this.hasHeader(line.text, dialect.background) ||
+        line.text.startsWith("@") ||
+        this.hasHeader(line.text, dialect.rule) ||
+        this.isScenarioHeader(line.text, dialect)
+      ) {
+        break;
+      }
+
+      rule.description = rule.description
+        ? `${rule.description}\n${line.text}`
+        : line.text;
+      currentLine++;
+    }
+
+    return { rule, nextLine: currentLine };
+  }
+
   /**
    * Parse a background
    */
   private static parseBackground(
-    lines: Array<{ text: string; number: number }>,
-    startLine: number
+    lines: ParsedLine[],
+    startLine: number,
+    dialect: GherkinDialect
   ): { background: Background; nextLine: number } {
     const background: Background = {
       steps: [],
@@ -128,27 +454,41 @@ export class FeatureParser {
         continue;
       }
 
-      if (line.text.startsWith("@") || line.text.startsWith("Scenario:")) {
+      if (
+        line.text.startsWith("@") ||
+        this.hasHeader(line.text, dialect.rule) ||
+        this.isScenarioHeader(line.text, dialect)
+      ) {
         break;
       }
 
-      if (this.isStepKeyword(line.text)) {
-        const step = this.parseStep(line);
+      if (this.isStepKeyword(line.text, dialect)) {
+        const step = this.parseStep(
+          lines,
+          line,
+          dialect,
+          background.steps[background.steps.length - 1]
+        );
         background.steps.push(step);
+        currentLine = this.parseStepArgument(lines, currentLine + 1, step);
+        continue;
       }
 
+      // Other lines, such as a description, are ignored
       currentLine++;
     }
     return { background, nextLine: currentLine };
   }
 
   /**
-   * Parse a scenario
+   * Parse a scenario. A Scenario Outline is expanded into one scenario per
+   * Examples row, so the result may hold more than one scenario.
    */
   private static parseScenario(
-    lines: Array<{ text: string; number: number }>,
-    startLine: number
-  ): { scenario: Scenario; nextLine: number } {
+    lines: ParsedLine[],
+    startLine: number,
+    dialect: GherkinDialect
+  ): { scenarios: Scenario[]; nextLine: number } {
     let currentLine = startLine;
     const tags: string[] = [];
 
@@ -163,20 +503,31 @@ export class FeatureParser {
 
     // Parse scenario name
     const scenarioLine = lines[currentLine];
-    if (!scenarioLine.text.startsWith("Scenario:")) {
-      throw new Error(`Expected 'Scenario:' at line ${scenarioLine.number}`);
+    if (!scenarioLine || !this.isScenarioHeader(scenarioLine.text, dialect)) {
+      throw this.parseError(
+        lines,
+        scenarioLine,
+        `Expected '${dialect.scenario[0]}:' or '${
+          dialect.scenarioOutline[0]
+        }:' after tags`
+      );
     }
 
+    const isOutline = this.hasHeader(
+      scenarioLine.text,
+      dialect.scenarioOutline
+    );
     const scenario: Scenario = {
-      name: scenarioLine.text.substring(9).trim(),
+      name: this.headerName(scenarioLine.text),
       steps: [],
       tags,
       line: scenarioLine.number,
     };
+    const examples: Examples[] = [];
 
     currentLine++;
 
-    // Parse steps
+    // Parse steps and, for outlines, Examples blocks
     while (currentLine < lines.length) {
       const line = lines[currentLine];
       if (line.text === "" || line.text.startsWith("#")) {
@@ -184,46 +535,475 @@ export class FeatureParser {
         continue;
       }
 
-      if (line.text.startsWith("@") || line.text.startsWith("Scenario:")) {
+      if (line.text.startsWith("@")) {
+        // Tags directly above an Examples block belong to that block
+        if (
+          !isOutline ||
+          !this.hasHeader(
+            this.peekAfterTags(lines, currentLine),
+            dialect.examples
+          )
+        ) {
+          break;
+        }
+        const { examples: block, nextLine } = this.parseExamples(
+          lines,
+          currentLine
+        );
+        examples.push(block);
+        currentLine = nextLine;
+        continue;
+      }
+
+      if (
+        this.isScenarioHeader(line.text, dialect) ||
+        this.hasHeader(line.text, dialect.rule) ||
+        this.hasHeader(line.text, dialect.background)
+      ) {
         break;
       }
 
-      if (this.isStepKeyword(line.text)) {
-        const step = this.parseStep(line);
+      if (this.hasHeader(line.text, dialect.examples)) {
+        if (!isOutline) {
+          throw this.parseError(
+            lines,
+            line,
+            `'${dialect.examples[0]}:' is only allowed in a ${dialect.scenarioOutline[0]}`
+          );
+        }
+        const { examples: block, nextLine } = this.parseExamples(
+          lines,
+          currentLine
+        );
+        examples.push(block);
+        currentLine = nextLine;
+        continue;
+      }
+
+      if (this.isStepKeyword(line.text, dialect)) {
+        const step = this.parseStep(
+          lines,
+          line,
+          dialect,
+          scenario.steps[scenario.steps.length - 1]
+        );
         scenario.steps.push(step);
+        currentLine = this.parseStepArgument(lines, currentLine + 1, step);
+        continue;
+      }
+
+      // Other lines, such as a description, are ignored
+      currentLine++;
+    }
+
+    if (!isOutline) {
+      return { scenarios: [scenario], nextLine: currentLine };
+    }
+
+    return {
+      scenarios: this.expandOutline(scenario, examples),
+      nextLine: currentLine,
+    };
+  }
+
+  /**
+   * Parse an Examples block (optional tags, header row and data rows)
+   */
+  private static parseExamples(
+    lines: ParsedLine[],
+    startLine: number
+  ): { examples: Examples; nextLine: number } {
+    let currentLine = startLine;
+    const tags: string[] = [];
+
+    while (
+      currentLine < lines.length &&
+      lines[currentLine].text.startsWith("@")
+    ) {
+      tags.push(...this.parseTags(lines[currentLine].text));
+      currentLine++;
+    }
+
+    const examplesLine = lines[currentLine];
+    const name = this.headerName(examplesLine.text);
+    const examples: Examples = {
+      name: name || undefined,
+      tags,
+      header: [],
+      rows: [],
+      line: examplesLine.number,
+    };
+
+    currentLine++;
+
+    while (currentLine < lines.length) {
+      const line = lines[currentLine];
+      if (line.text === "" || line.text.startsWith("#")) {
+        currentLine++;
+        continue;
+      }
+      if (!line.text.startsWith("|")) {
+        // Free text before the header row is the block's description
+        if (examples.header.length === 0) {
+          currentLine++;
+          continue;
+        }
+        break;
       }
 
+      const cells = this.parseTableRow(line.text);
+      if (examples.header.length === 0) {
+        examples.header = cells;
+      } else {
+        if (cells.length !== examples.header.length) {
+          throw this.parseError(
+            lines,
+            line,
+            `Examples row has ${cells.length} cells, expected ${examples.header.length}`
+          );
+        }
+        examples.rows.push({ cells, line: line.number });
+      }
       currentLine++;
     }
 
-    return { scenario, nextLine: currentLine };
+    return { examples, nextLine: currentLine };
   }
 
   /**
-   * Parse a single step
+   * Expand a Scenario Outline into one concrete scenario per Examples row
    */
-  private static parseStep(line: { text: string; number: number }): Step {
-    const stepKeywords = ["Given", "When", "Then", "And", "But"];
+  private static expandOutline(
+    outline: Scenario,
+    examples: Examples[]
+  ): Scenario[] {
+    const scenarios: Scenario[] = [];
+    let rowIndex = 0;
+
+    for (const block of examples) {
+      for (const row of block.rows) {
+        rowIndex++;
+        const parameters: { [key: string]: string } = {};
+        block.header.forEach((column, index) => {
+          parameters[column] = row.cells[index];
+        });
+
+        scenarios.push({
+          name: `${this.substituteParameters(
+            outline.name,
+            parameters
+          )} (Example ${rowIndex})`,
+          steps: outline.steps.map((step) => ({
+            ...step,
+            text: this.substituteParameters(step.text, parameters),
+            dataTable: step.dataTable && {
+              ...step.dataTable,
+              rows: step.dataTable.rows.map((cells) =>
+                cells.map((cell) => this.substituteParameters(cell, parameters))
+              ),
+            },
+            docString: step.docString && {
+              ...step.docString,
+              content: this.substituteParameters(
+                step.docString.content,
+                parameters
+              ),
+            },
+          })),
+          tags: [...outline.tags, ...block.tags],
+          line: row.line,
+          outline: {
+            name: outline.name,
+            line: outline.line,
+            examplesName: block.name,
+            rowIndex,
+            parameters,
+          },
+        });
+      }
+    }
 
-    for (const keyword of stepKeywords) {
-      if (line.text.startsWith(keyword + " ")) {
+    return scenarios;
+  }
+
+  /**
+   * Replace <placeholder> tokens with values from an Examples row
+   */
+  private static substituteParameters(
+    text: string,
+    parameters: { [key: string]: string }
+  ): string {
+    return text.replace(/<([^<>]+)>/g, (match, name) =>
+      name in parameters ? parameters[name] : match
+    );
+  }
+
+  /**
+   * Split a "| a | b |" row into trimmed cells, honouring "\|" escapes
+   */
+  private static parseTableRow(text: string): string[] {
+    const cells: string[] = [];
+    let current = "";
+    const body = text.trim().replace(/^\|/, "").replace(/\|$/, "");
+
+    for (let i = 0; i < body.length; i++) {
+      const char = body[i];
+      if (char === "\\" && i + 1 < body.length) {
+        const next = body[i + 1];
+        current += next === "n" ? "\n" : next;
+        i++;
+      } else if (char === "|") {
+        cells.push(current.trim());
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    cells.push(current.trim());
+    return cells;
+  }
+
+  /**
+   * Return the first line after a run of tag lines, skipping comments and
+   * blank lines, so callers can tell what the tags are attached to
+   */
+  private static peekAfterTags(lines: ParsedLine[], startLine: number): string {
+    let currentLine = startLine;
+    while (
+      currentLine < lines.length &&
+      (lines[currentLine].text.startsWith("@") ||
+        lines[currentLine].text.startsWith("#") ||
+        lines[currentLine].text === "")
+    ) {
+      currentLine++;
+    }
+    return currentLine < lines.length ? lines[currentLine].text : "";
+  }
+
+  /**
+   * Check if line starts a Scenario or Scenario Outline
+   */
+  private static isScenarioHeader(
+    text: string,
+    dialect: GherkinDialect
+  ): boolean {
+    return (
+      this.hasHeader(text, dialect.scenario) ||
+      this.hasHeader(text, dialect.scenarioOutline)
+    );
+  }
+
+  /**
+   * Check if line starts with one of the keywords followed by a colon
+   */
+  private static hasHeader(text: string, keywords: string[]): boolean {
+    return keywords.some((keyword) => text.startsWith(keyword + ":"));
+  }
+
+  /**
+   * The name following "Keyword:" on a header line
+   */
+  private static headerName(text: string): string {
+    return text.substring(text.indexOf(":") + 1).trim();
+  }
+
+  /**
+   * Attach a data table or docstring that follows a step, possibly after
+   * comment or blank lines. Returns the line after the consumed argument.
+   */
+  private static parseStepArgument(
+    lines: ParsedLine[],
+    startLine: number,
+    step: Step
+  ): number {
+    let argumentLine = startLine;
+    while (
+      argumentLine < lines.length &&
+      (lines[argumentLine].text === "" ||
+        lines[argumentLine].text.startsWith("#"))
+    ) {
+      argumentLine++;
+    }
+
+    const firstLine = lines[argumentLine];
+    if (!firstLine) {
+      return startLine;
+    }
+
+    if (firstLine.text.startsWith("|")) {
+      const { dataTable, nextLine } = this.parseDataTable(lines, argumentLine);
+      step.dataTable = dataTable;
+      return nextLine;
+    }
+
+    if (this.isDocStringDelimiter(firstLine.text)) {
+      const { docString, nextLine } = this.parseDocString(lines, argumentLine);
+      step.docString = docString;
+      return nextLine;
+    }
+
+    return startLine;
+  }
+
+  /**
+   * Parse consecutive "| a | b |" rows into a data table
+   */
+  private static parseDataTable(
+    lines: ParsedLine[],
+    startLine: number
+  ): { dataTable: DataTable; nextLine: number } {
+    const dataTable: DataTable = {
+      rows: [],
+      line: lines[startLine].number,
+    };
+
+    let currentLine = startLine;
+    while (currentLine < lines.length) {
+      const line = lines[currentLine];
+      if (line.text.startsWith("#")) {
+        currentLine++;
+        continue;
+      }
+      if (!line.text.startsWith("|")) {
+        break;
+      }
+
+      const cells = this.parseTableRow(line.text);
+      if (
+        dataTable.rows.length > 0 &&
+        cells.length !== dataTable.rows[0].length
+      ) {
+        throw this.parseError(
+          lines,
+          line,
+          `Data table row has ${cells.length} cells, expected ${dataTable.rows[0].length}`
+        );
+      }
+      dataTable.rows.push(cells);
+      currentLine++;
+    }
+
+    return { dataTable, nextLine: currentLine };
+  }
+
+  /**
+   * Parse a """ (or ```) delimited docstring, keeping indentation relative
+   * to the opening delimiter
+   */
+  private static parseDocString(
+    lines: ParsedLine[],
+    startLine: number
+  ): { docString: DocString; nextLine: number } {
+    const opening = lines[startLine];
+    const delimiter = opening.text.substring(0, 3);
+    const mediaType = opening.text.substring(3).trim();
+    const indent = opening.raw.indexOf(delimiter);
+    const content: string[] = [];
+
+    let currentLine = startLine + 1;
+    while (currentLine < lines.length) {
+      const line = lines[currentLine];
+      if (line.text === delimiter) {
         return {
-          keyword: keyword as any,
-          text: line.text.substring(keyword.length + 1).trim(),
+          docString: {
+            content: content.join("\n"),
+            mediaType: mediaType || undefined,
+            line: opening.number,
+          },
+          nextLine: currentLine + 1,
+        };
+      }
+
+      // Strip the delimiter's indentation, but never non-whitespace characters
+      const leading = line.raw.length - line.raw.trimStart().length;
+      content.push(
+        line.raw
+          .substring(Math.min(indent, leading))
+          .replace(/\\"\\"\\"/g, '"""')
+      );
+      currentLine++;
+    }
+
+    throw this.parseError(
+      lines,
+      opening,
+      `Unterminated docstring: missing closing ${delimiter}`
+    );
+  }
+
+  private static isDocStringDelimiter(text: string): boolean {
+    return text.startsWith('"""') || text.startsWith("```");
+  }
+
+  /**
+   * Parse a single step. And, But and * steps take their effective keyword
+   * from the previous step in the same block.
+   */
+  private static parseStep(
+    lines: ParsedLine[],
+    line: ParsedLine,
+    dialect: GherkinDialect,
+    previous?: Step
+  ): Step {
+    // Keywords are stored in English whatever the feature's language
+    for (const { keyword, type } of dialect.steps) {
+      if (line.text.startsWith(keyword)) {
+        return {
+          keyword: type,
+          effectiveKeyword:
+            type === "Given" || type === "When" || type === "Then"
+              ? type
+              : previous?.effectiveKeyword || "Given",
+          text: line.text.substring(keyword.length).trim(),
           line: line.number,
         };
       }
     }
 
-    throw new Error(`Invalid step format at line ${line.number}: ${line.text}`);
+    throw this.invalidStepError(lines, line, dialect);
+  }
+
+  private static invalidStepError(
+    lines: ParsedLine[],
+    line: ParsedLine,
+    dialect: GherkinDialect
+  ): GherkinParseError {
+    const keywords = Array.from(
+      new Set(dialect.steps.map(({ keyword }) => keyword.trim()))
+    );
+    return this.parseError(
+      lines,
+      line,
+      `Invalid step "${line.text}": expected one of ${keywords.join(", ")}`
+    );
+  }
+
+  /**
+   * Build a parse error for a line (the last line when the input ended
+   * early). The column defaults to the first non-blank character.
+   */
+  private static parseError(
+    lines: ParsedLine[],
+    line: ParsedLine | undefined,
+    reason: string,
+    column?: number
+  ): GherkinParseError {
+    const target = line || lines[lines.length - 1];
+    return new GherkinParseError(
+      reason,
+      {
+        line: target.number,
+        column: column ?? target.raw.length - target.raw.trimStart().length + 1,
+      },
+      lines.map(({ raw }) => raw)
+    );
   }
 
   /**
    * Check if line starts with a step keyword
    */
-  private static isStepKeyword(text: string): boolean {
-    const keywords = ["Given", "When", "Then", "And", "But"];
-    return keywords.some((keyword) => text.startsWith(keyword + " "));
+  private static isStepKeyword(text: string, dialect: GherkinDialect): boolean {
+    return dialect.steps.some(({ keyword }) => text.startsWith(keyword));
   }
 
   /**
@@ -235,15 +1015,20 @@ export class FeatureParser {
   }
 
   /**
-   * Filter scenarios based on include and exclude tags
+   * Filter scenarios based on include and exclude tags (or tag expressions).
+   * Pass the owning feature so its feature and rule tags are inherited.
    */
   static filterScenarios(
     scenarios: Scenario[],
     includeTags: string[],
-    excludeTags: string[]
+    excludeTags: string[],
+    feature?: Feature
   ): Scenario[] {
+    const tagFilter = createTagFilter(includeTags, excludeTags);
     return scenarios.filter((scenario) =>
-      this.shouldIncludeScenario(scenario.tags, includeTags, excludeTags)
+      tagFilter.evaluate(
+        feature ? this.getEffectiveTags(feature, scenario) : scenario.tags
+      )
     );
   }
 
@@ -261,34 +1046,36 @@ export class FeatureParser {
         scenarios: this.filterScenarios(
           feature.scenarios,
           includeTags,
-          excludeTags
+          excludeTags,
+          feature
         ),
       }))
       .filter((feature) => feature.scenarios.length > 0);
   }
 
   /**
-   * Determine if a scenario should be included based on tags
+   * Determine if a scenario should be included based on a tag filter built
+   * with createTagFilter. Feature and rule tags are inherited by the scenario.
    */
-  private static shouldIncludeScenario(
-    scenarioTags: string[],
-    includeTags: string[],
-    excludeTags: string[]
+  static shouldIncludeScenario(
+    feature: Feature,
+    scenario: Scenario,
+    tagFilter: TagExpression
   ): boolean {
-    // if exclude tags are specified and scenario has any of them, exclude
-    if (excludeTags && excludeTags.length > 0) {
-      if (scenarioTags.some((tag) => excludeTags.includes(tag))) {
-        return false;
-      }
-    }
-
-    // If include tags are specified, scenario must have at least one
-    if (includeTags && includeTags.length > 0) {
-      return scenarioTags.some((tag) => includeTags.includes(tag));
-    }
+    return tagFilter.evaluate(this.getEffectiveTags(feature, scenario));
+  }
 
-    // If no tags specified, include all scenarios (except excluded ones)
-    return true;
+  /**
+   * Tags that apply to a scenario: its own plus those of its feature and rule
+   */
+  static getEffectiveTags(feature: Feature, scenario: Scenario): string[] {
+    const rule =
+      scenario.ruleIndex !== undefined
+        ? feature.rules[scenario.ruleIndex]
+        : undefined;
+    return Array.from(
+      new Set([...feature.tags, ...(rule?.tags || []), ...scenario.tags])
+    );
   }
 
   /**
@@ -297,8 +1084,11 @@ export class FeatureParser {
   static getAllTagsFromFeature(feature: Feature): string[] {
     const allTags = new Set<string>();
 
-    // Add feature-level tags
+    // Add feature-level and rule-level tags
     feature.tags.forEach((tag) => allTags.add(tag));
+    feature.rules.forEach((rule) => {
+      rule.tags.forEach((tag) => allTags.add(tag));
+    });
     // Add scenario-level tags
     feature.scenarios.forEach((scenario) => {
       scenario.tags.forEach((tag) => allTags.add(tag));
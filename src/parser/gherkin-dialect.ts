@@ -0,0 +1,83 @@
+import { dialects } from "@cucumber/gherkin";
+import { Step } from "../types/feature-types";
+
+/**
+ * Gherkin keywords for one spoken language, taken from the standard
+ * Cucumber dictionaries (see https://cucumber.io/docs/gherkin/languages/)
+ */
+export interface GherkinDialect {
+  language: string;
+  name: string;
+  feature: string[];
+  background: string[];
+  rule: string[];
+  scenario: string[];
+  scenarioOutline: string[];
+  examples: string[];
+  // Native step keywords (including any trailing space), longest first,
+  // mapped to the English keyword (or "*") stored on the parsed Step
+  steps: Array<{ keyword: string; type: Step["keyword"] }>;
+}
+
+export const DEFAULT_LANGUAGE = "en";
+
+const STEP_TYPES: Array<{
+  key: "given" | "when" | "then" | "and" | "but";
+  type: Step["keyword"];
+}> = [
+  { key: "given", type: "Given" },
+  { key: "when", type: "When" },
+  { key: "then", type: "Then" },
+  { key: "and", type: "And" },
+  { key: "but", type: "But" },
+];
+
+const cache = new Map<string, GherkinDialect>();
+
+/**
+ * Get the keyword dictionary for a language code such as "en", "de" or "pt-BR"
+ */
+export function getDialect(language: string): GherkinDialect {
+  const cached = cache.get(language);
+  if (cached) return cached;
+
+  const source = dialects[language];
+  if (!source) {
+    throw new Error(
+      `Unknown Gherkin language "${language}". Supported languages: ${getSupportedLanguages().join(
+        ", "
+      )}`
+    );
+  }
+
+  const steps = STEP_TYPES.flatMap(({ key, type }) =>
+    source[key].map((keyword) => ({
+      keyword,
+      type: keyword.trim() === "*" ? ("*" as const) : type,
+    }))
+  )
+    // "* " is listed under every step type
+    .filter(
+      (step, index, all) =>
+        all.findIndex((other) => other.keyword === step.keyword) === index
+    )
+    .sort((a, b) => b.keyword.length - a.keyword.length);
+
+  const dialect: GherkinDialect = {
+    language,
+    name: source.name,
+    feature: [...source.feature],
+    background: [...source.background],
+    rule: [...source.rule],
+    scenario: [...source.scenario],
+    scenarioOutline: [...source.scenarioOutline],
+    examples: [...source.examples],
+    steps,
+  };
+  cache.set(language, dialect);
+  return dialect;
+}
+
+export function getSupportedLanguages(): string[] {
+  return Object.keys(dialects).sort();
+}
@@ -0,0 +1,75 @@
+/**
+ * A syntax error in a feature file, pointing at the offending line with a
+ * short snippet of the surrounding source:
+ *
+ *   Examples row has 3 cells, expected 2
+ *     at src/features/login.feature:12:7
+ *     11 |       | user  | password |
+ *   > 12 |       | alice | secret   | admin |
+ *        |       ^
+ */
+export class GherkinParseError extends Error {
+  readonly reason: string;
+  readonly filePath?: string;
+  readonly line: number;
+  readonly column: number;
+  readonly snippet: string;
+  private readonly sourceLines: string[];
+
+  constructor(
+    reason: string,
+    location: { filePath?: string; line: number; column: number },
+    sourceLines: string[]
+  ) {
+    const snippet = GherkinParseError.buildSnippet(
+      sourceLines,
+      location.line,
+      location.column
+    );
+    const position = `${location.filePath ? `${location.filePath}:` : "line "}${
+      location.line
+    }:${location.column}`;
+    super(`${reason}\n  at ${position}${snippet ? `\n${snippet}` : ""}`);
+    this.name = "GherkinParseError";
+    this.reason = reason;
+    this.filePath = location.filePath;
+    this.line = location.line;
+    this.column = location.column;
+    this.snippet = snippet;
+    this.sourceLines = sourceLines;
+  }
+
+  /**
+   * The same error, attributed to a feature file
+   */
+  inFile(filePath: string): GherkinParseError {
+    return new GherkinParseError(
+      this.reason,
+      { filePath, line: this.line, column: this.column },
+      this.sourceLines
+    );
+  }
+
+  /**
+   * The line before the error, the error line and a caret under the column
+   */
+  private static buildSnippet(
+    sourceLines: string[],
+    line: number,
+    column: number
+  ): string {
+    if (line < 1 || line > sourceLines.length) return "";
+
+    const width = String(line).length;
+    const gutter = (number?: number) =>
+      number === undefined ? " ".repeat(width) : String(number).padStart(width);
+    const snippet: string[] = [];
+
+    if (line > 1) {
+      snippet.push(`    ${gutter(line - 1)} | ${sourceLines[line - 2]}`);
+    }
+    snippet.push(`  > ${gutter(line)} | ${sourceLines[line - 1]}`);
+    snippet.push(`    ${gutter()} | ${" ".repeat(Math.max(column - 1, 0))}^`);
+    return snippet.join("\n");
+  }
+}
@@ -1,20 +1,26 @@
 import pLimit from "p-limit";
 import {
   Feature,
+  Scenario,
   FeatureResult,
   ScenarioResult,
+  HookResult,
+  HealEvent,
   TestReport,
   ExecutionOptions,
 } from "../types/feature-types";
 import { FeatureParser } from "../parser/feature-parser";
+import { GherkinParseError } from "../parser/gherkin-parse-error";
 import { ScenarioRunner } from "./scenario-runner";
+import { createTagFilter, TagExpression } from "../utils/tag-expression";
+import { hookRegistry } from "../utils/hook-registry";
 import Logger from "../utils/logger";
 import * as fs from "fs";
 import * as path from "path";
 import { duration } from "moment-timezone";
 
 export async function runAllFeatures(
-  featureDir: string,
+  featurePaths: string | string[],
   options: ExecutionOptions
 ): Promise<TestReport> {
   const logger = new Logger();
@@ -29,65 +35,44 @@ export async function runAllFeatures(
     fs.mkdirSync(options.reportDir, { recursive: true });
   }
 
-  const features: Feature[] = FeatureParser.parseFeatureDirectory(featureDir);
+  // Directories are searched recursively; globs and file:line targets are allowed.
+  // Malformed features are reported as errored while the others still run.
+  const { features, errors: parseErrors } =
+    FeatureParser.parseFeaturesCollectingErrors(
+      Array.isArray(featurePaths) ? featurePaths : [featurePaths]
+    );
+  if (parseErrors.length > 0) {
+    logger.error(
+      `${parseErrors.length} feature file(s) could not be parsed:\n\n${parseErrors
+        .map((error) => error.message)
+        .join("\n\n")}`
+    );
+  }
   const limit = pLimit(options.maxParallel || 2);
+  const tagFilter = createTagFilter(options.tags, options.excludeTags);
 
   const scenarioRunner = new ScenarioRunner(options);
   await scenarioRunner.setup();
-  const featureResults: FeatureResult[] = [];
+  const featureResults: FeatureResult[] = parseErrors.map(erroredFeatureResult);
+  const runHooks: HookResult[] = [];
 
   try {
+    // Hooks are registered while setup() loads the steps folder
+    runHooks.push(...(await hookRegistry.run("BeforeAll", {})));
+    const beforeAllFailed = runHooks.some((hook) => hook.status === "failed");
+
     for (const feature of features) {
-      const featureStartTime = Date.now();
-      const scenarioResults: ScenarioResult[] = [];
-
-      if (options.parallel) {
-        // Run scenarios in parallel
-        const promises = feature.scenarios.map((scenario) =>
-          limit(async () => {
-            if (
-              shouldRunScenario(
-                scenario.tags,
-                options.tags,
-                options.excludeTags
-              )
-            ) {
-              return await scenarioRunner.runScenario(feature, scenario);
-            }
-            return null;
-          })
-        );
-        const results = await Promise.all(promises);
-        scenarioResults.push(
-          ...(results.filter((r) => r !== null) as ScenarioResult[])
-        );
-      } else {
-        // Run scenarios sequentially
-        for (const scenario of feature.scenarios) {
-          if (
-            shouldRunScenario(scenario.tags, options.tags, options.excludeTags)
-          ) {
-            const result = await scenarioRunner.runScenario(feature, scenario);
-            scenarioResults.push(result);
-          }
-        }
-      }
-
-      const featureStatus = scenarioResults.some((r) => r.status === "failed")
-        ? "failed"
-        : scenarioResults.length === 0
-        ? "skipped"
-        : "passed";
-      featureResults.push({
-        feature,
-        scenarios: scenarioResults,
-        status: featureStatus,
-        duration: Date.now() - featureStartTime,
+      const result = await runFeature(feature, scenarioRunner, tagFilter, {
+        parallel: options.parallel,
+        limit,
+        skip: beforeAllFailed,
       });
-
-      logger.info(`Feature completed: ${feature.name} (${featureStatus})`);
+      featureResults.push(result);
+      logger.info(`Feature completed: ${feature.name} (${result.status})`);
     }
   } finally {
+    // AfterAll hooks always run
+    runHooks.push(...(await hookRegistry.run("AfterAll", {})));
     await scenarioRunner.teardown();
   }
 
@@ -101,8 +86,10 @@ export async function runAllFeatures(
       passed: allScenarios.filter((s) => s.status === "passed").length,
       failed: allScenarios.filter((s) => s.status === "failed").length,
       skipped: allScenarios.filter((s) => s.status === "skipped").length,
+      errored: parseErrors.length,
       duration: endTime.getTime() - startTime.getTime(),
     },
+    hooks: runHooks.length > 0 ? runHooks : undefined,
     startTime,
     endTime,
     baseUrl: options.baseUrl,
@@ -115,8 +102,9 @@ export async function runAllFeatures(
 
   logger.info(`Test execution completed. Report saved to: ${reportPath}`);
   logger.info(
-    `Summary: ${report.summary.passed} passed, ${report.summary.failed} failed, ${report.summary.skipped} skipped.`
+    `Summary: ${report.summary.passed} passed, ${report.summary.failed} failed, ${report.summary.skipped} skipped, ${parseErrors.length} feature(s) errored.`
   );
+  logHealSummary(logger, allScenarios);
   return report;
 }
 
@@ -126,7 +114,11 @@ export async function runSingleFeature(
 ): Promise<FeatureResult> {
   const logger = new Logger();
   const startTime = new Date();
-  const feature = FeatureParser.parseFeatureFile(featurePath);
+  // Supports "file.feature:42" to run a single scenario by line number
+  const {
+    features: [feature],
+    errors: parseErrors,
+  } = FeatureParser.parseFeaturesCollectingErrors([featurePath]);
   logger.info(
     `Starting text execution with options: ${JSON.stringify(options)}`
   );
@@ -136,80 +128,203 @@ export async function runSingleFeature(
     fs.mkdirSync(options.reportDir, { recursive: true });
   }
 
-  const scenarioRunner = new ScenarioRunner(options);
-  await scenarioRunner.setup();
+  const runHooks: HookResult[] = [];
+  let result: FeatureResult;
+  if (parseErrors.length > 0) {
+    // Nothing to run; report the feature as errored
+    logger.error(`Feature could not be parsed:\n${parseErrors[0].message}`);
+    result = erroredFeatureResult(parseErrors[0]);
+  } else {
+    const tagFilter = createTagFilter(options.tags, options.excludeTags);
+    const scenarioRunner = new ScenarioRunner(options);
+    await scenarioRunner.setup();
+    try {
+      runHooks.push(...(await hookRegistry.run("BeforeAll", {})));
+      result = await runFeature(feature, scenarioRunner, tagFilter, {
+        skip: runHooks.some((hook) => hook.status === "failed"),
+      });
+    } finally {
+      // AfterAll hooks always run
+      runHooks.push(...(await hookRegistry.run("AfterAll", {})));
+      await scenarioRunner.teardown();
+    }
+  }
+
+  // Generate and save test report for single feature
+  const scenarioResults = result.scenarios;
+  const endTime = new Date();
+  const report: TestReport = {
+    features: [result],
+    summary: {
+      total: scenarioResults.length,
+      passed: scenarioResults.filter((s) => s.status === "passed").length,
+      failed: scenarioResults.filter((s) => s.status === "failed").length,
+      skipped: scenarioResults.filter((s) => s.status === "skipped").length,
+      duration: endTime.getTime() - startTime.getTime(),
+    },
+    hooks: runHooks.length > 0 ? runHooks : undefined,
+    startTime,
+    endTime,
+    baseUrl: options.baseUrl,
+    environment: options.environment,
+  };
+
+  // Save test report
+  const reportPath = path.join(options.reportDir, "test-report.json");
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  logger.info(`Feature completed: ${result.feature.name} (${result.status})`);
+  logger.info(`Test execution completed. Report saved to: ${reportPath}`);
+  logger.info(
+    `Summary: ${report.summary.passed} passed, ${report.summary.failed} failed, ${report.summary.skipped} skipped.`
+  );
+  logHealSummary(logger, scenarioResults);
+
+  return result;
+}
+
+/**
+ * Run the selected scenarios of one feature between its BeforeFeature and
+ * AfterFeature hooks. When skip is set (or a BeforeFeature hook fails) the
+ * scenarios are reported as skipped without being executed.
+ */
+async function runFeature(
+  feature: Feature,
+  scenarioRunner: ScenarioRunner,
+  tagFilter: TagExpression,
+  settings: {
+    parallel?: boolean;
+    limit?: ReturnType<typeof pLimit>;
+    skip?: boolean;
+  }
+): Promise<FeatureResult> {
   const featureStartTime = Date.now();
+  const scenarios = feature.scenarios.filter((scenario) =>
+    shouldRunScenario(feature, scenario, tagFilter)
+  );
   const scenarioResults: ScenarioResult[] = [];
-  try {
-    for (const scenario of feature.scenarios) {
-      if (shouldRunScenario(scenario.tags, options.tags, options.excludeTags)) {
-        const result = await scenarioRunner.runScenario(feature, scenario);
-        scenarioResults.push(result);
-      }
+  const featureHooks: HookResult[] = [];
+
+  if (!settings.skip && scenarios.length > 0) {
+    featureHooks.push(
+      ...(await hookRegistry.run("BeforeFeature", {
+        tags: feature.tags,
+        args: [feature],
+      }))
+    );
+  }
+
+  if (settings.skip || featureHooks.some((hook) => hook.status === "failed")) {
+    scenarioResults.push(...scenarios.map(skippedScenarioResult));
+  } else if (settings.parallel && settings.limit) {
+    // Run scenarios in parallel
+    const limit = settings.limit;
+    const results = await Promise.all(
+      scenarios.map((scenario) =>
+        limit(() => scenarioRunner.runScenario(feature, scenario))
+      )
+    );
+    scenarioResults.push(...results);
+  } else {
+    // Run scenarios sequentially
+    for (const scenario of scenarios) {
+      scenarioResults.push(await scenarioRunner.runScenario(feature, scenario));
     }
-    const featureStatus = scenarioResults.some((r) => r.status === "failed")
+  }
+
+  if (!settings.skip && scenarios.length > 0) {
+    // AfterFeature hooks run even when BeforeFeature failed
+    featureHooks.push(
+      ...(await hookRegistry.run("AfterFeature", {
+        tags: feature.tags,
+        args: [feature],
+      }))
+    );
+  }
+
+  const featureStatus =
+    scenarioResults.some((r) => r.status === "failed") ||
+    featureHooks.some((hook) => hook.status === "failed")
       ? "failed"
-      : scenarioResults.length === 0
+      : scenarioResults.every((r) => r.status === "skipped")
       ? "skipped"
       : "passed";
 
-    const result: FeatureResult = {
-      feature,
-      scenarios: scenarioResults,
-      status: featureStatus,
-      duration: Date.now() - featureStartTime,
-    };
-
-    // Generate and save test report for single feature
-    const endTime = new Date();
-    const report: TestReport = {
-      features: [result],
-      summary: {
-        total: scenarioResults.length,
-        passed: scenarioResults.filter((s) => s.status === "passed").length,
-        failed: scenarioResults.filter((s) => s.status === "failed").length,
-        skipped: scenarioResults.filter((s) => s.status === "skipped").length,
-        duration: endTime.getTime() - startTime.getTime(),
-      },
-      startTime,
-      endTime,
-      baseUrl: options.baseUrl,
-      environment: options.environment,
-    };
-
-    // Save test report
-    const reportPath = path.join(options.reportDir, "test-report.json");
-    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
-
-    logger.info(`Feature completed: ${feature.name} (${featureStatus})`);
-    logger.info(`Test execution completed. Report saved to: ${reportPath}`);
-    logger.info(
-      `Summary: ${report.summary.passed} passed, ${report.summary.failed} failed, ${report.summary.skipped} skipped.`
-    );
+  return {
+    feature,
+    rules: feature.rules.map((rule) => rule.name),
+    scenarios: scenarioResults,
+    hooks: featureHooks.length > 0 ? featureHooks : undefined,
+    status: featureStatus,
+    duration: Date.now() - featureStartTime,
+  };
+}
 
-    return result;
-  } finally {
-    await scenarioRunner.teardown();
-  }
+/**
+ * Report entry for a feature file that could not be parsed
+ */
+function erroredFeatureResult(error: GherkinParseError): FeatureResult {
+  const filePath = error.filePath || "";
+  return {
+    feature: {
+      name: path.basename(filePath),
+      scenarios: [],
+      rules: [],
+      tags: [],
+      filePath,
+      language: "en",
+    },
+    rules: [],
+    scenarios: [],
+    status: "errored",
+    parseError: {
+      message: error.reason,
+      filePath: error.filePath,
+      line: error.line,
+      column: error.column,
+      snippet: error.snippet,
+    },
+    duration: 0,
+  };
 }
 
-function shouldRunScenario(
-  scenarioTags: string[],
-  includeTags?: string[],
-  excludeTags?: string[]
-): boolean {
-  // If exclude tags are specified and scenario has any of them, skip
-  if (excludeTags && excludeTags.length > 0) {
-    if (scenarioTags.some((tag) => excludeTags.includes(tag))) {
-      return false;
-    }
+/**
+ * List each registry selector that healed during the run, so the registry
+ * or the page can be fixed
+ */
+function logHealSummary(logger: Logger, scenarios: ScenarioResult[]): void {
+  const heals = new Map<string, HealEvent>();
+  for (const heal of scenarios.flatMap((s) => s.heals || [])) {
+    heals.set(`${heal.registry}:${heal.key}:${heal.from}:${heal.to}`, heal);
   }
+  if (heals.size === 0) return;
 
-  // If include tags are specified, scenario must have at least one
-  if (includeTags && includeTags.length > 0) {
-    return scenarioTags.some((tag) => includeTags.includes(tag));
+  logger.warn(`${heals.size} registry selector(s) healed during the run:`);
+  for (const heal of heals.values()) {
+    logger.warn(
+      `  - ${heal.registry}.json "${heal.key}": ${heal.from} → ${heal.to} (${heal.strategy})`
+    );
   }
+}
+
+function skippedScenarioResult(scenario: Scenario): ScenarioResult {
+  const now = new Date();
+  return {
+    scenario,
+    steps: [],
+    status: "skipped",
+    duration: 0,
+    startTime: now,
+    endTime: now,
+  };
+}
 
-  // If no tags specified, run all scenarios (except excluded ones)
-  return true;
+function shouldRunScenario(
+  feature: Feature,
+  scenario: Scenario,
+  tagFilter: TagExpression
+): boolean {
+  // Same evaluator as FeatureParser.filterFeaturesByTags, with feature and
+  // rule tags inherited by the scenario
+  return FeatureParser.shouldIncludeScenario(feature, scenario, tagFilter);
 }
@@ -4,8 +4,10 @@ import {
   webkit,
   Browser,
   BrowserContext,
+  Locator,
   Page,
 } from "playwright";
+import { expect } from "@playwright/test";
 import {
   Feature,
   Scenario,
@@ -15,12 +17,25 @@ import {
   StepResult,
   ExecutionOptions,
   Embedding,
+  HookResult,
+  ResolveOptions,
 } from "../types/feature-types";
+import { FeatureParser } from "../parser/feature-parser";
 import { environmentManager } from "../utils/environment-manager";
 import Logger from "../utils/logger";
-import { parseStep, StepAction } from "../utils/step-parser";
+import {
+  parseStep,
+  resolvePlaceholders,
+  StepAction,
+} from "../utils/step-parser";
 import { ElementResolver } from "../utils/element-resolver";
+import { stepRegistry } from "../utils/step-registry";
+import { hookRegistry } from "../utils/hook-registry";
 import { DOMDebugHelper } from "../utils/dom-debug-helper";
+import { testDataManager } from "../utils/test-data-manager";
+import { PageManager } from "../utils/page-manager";
+import { registryStore } from "../utils/registry-store";
+import { columnIndex } from "../utils/dom-analyzer";
 import * as path from "path";
 import * as fs from "fs";
 import { trace } from "console";
@@ -31,10 +46,13 @@ export class ScenarioRunner {
   private page: Page | null = null;
   private logger = new Logger();
   private options: ExecutionOptions;
-  private elementResolver = new ElementResolver();
+  private elementResolver: ElementResolver;
+  // Tabs and dialogs of each running scenario
+  private pageManagers = new WeakMap<TestContext, PageManager>();
 
   constructor(options: ExecutionOptions) {
     this.options = options;
+    this.elementResolver = new ElementResolver(options.registryMode);
 
     // Set environment and load config
     environmentManager.initialize(options.environment);
@@ -72,6 +90,9 @@ export class ScenarioRunner {
       `Browser launched for environment: ${this.options.environment}`
     );
 
+    // Load custom step definitions; they take priority over NLP parsing
+    stepRegistry.loadFrom(this.options.stepsDir || "./src/steps");
+
     // // Get baseURL from options or environment
     // const baseURL =
     //   this.options.baseUrl || environmentManager.getString("BASE_URL");
@@ -125,6 +146,8 @@ export class ScenarioRunner {
   async teardown() {
     // await this.context?.close();
     await this.browser?.close();
+    // Write registry changes still held in memory
+    registryStore.flush();
   }
 
   async runScenario(
@@ -139,68 +162,120 @@ export class ScenarioRunner {
     let tracePath: string | undefined;
     const stepResults: StepResult[] = [];
 
-    // Create a new context for each scenario to get individual videos
-    const scenarioContext = await this.createScenarioContext(scenario.name);
-    const scenarioPage = await scenarioContext.newPage();
-
-    // Set timeout from environment or options
-    const timeout = this.options.timeout || 10000;
-    scenarioPage.setDefaultTimeout(timeout);
-
-    const testContext: TestContext = {
-      browser: this.browser!,
-      context: scenarioContext,
-      page: scenarioPage,
-      feature,
-      scenario,
-      variables: {},
-      environment: this.options.environment,
-      attach: this.createAttachFunction(scenario.name, embeddings),
-      screenshot: this.createScreenshotFunction(scenario.name, embeddings),
-      log: (message: string) => this.logger.info(message),
-    };
+    const hookResults: HookResult[] = [];
+    const tags = FeatureParser.getEffectiveTags(feature, scenario);
+    let scenarioError: Error | undefined;
+    // Set up inside the try below, so a failed launch fails this scenario
+    let scenarioContext: BrowserContext | undefined;
+    const variables: TestContext["variables"] = {};
 
     try {
-      // Navigate to base URL for the scenario page
-      const baseURL = this.options.baseUrl;
-      this.logger.info(`Navigating scenario page to base URL: ${baseURL}`);
-      await scenarioPage.goto(baseURL);
-
-      // Execute background steps if present
-      if (feature.background) {
-        this.logger.info(" Processing background steps...");
-        for (const step of feature.background.steps) {
-          const result = await this.executeStepWithRetries(step, testContext);
-          stepResults.push(result);
-          if (result.status === "failed") {
-            status = "failed";
-            break;
-          }
+      // Create a new context for each scenario to get individual videos
+      scenarioContext = await this.createScenarioContext(scenario.name);
+      const scenarioPage = await scenarioContext.newPage();
+
+      // Set timeout from environment or options
+      const timeout = this.options.timeout || 10000;
+      scenarioPage.setDefaultTimeout(timeout);
+
+      const testContext: TestContext = {
+        browser: this.browser!,
+        context: scenarioContext,
+        page: scenarioPage,
+        feature,
+        scenario,
+        variables,
+        environment: this.options.environment,
+        attach: this.createAttachFunction(scenario.name, embeddings),
+        screenshot: this.createScreenshotFunction(scenario.name, embeddings),
+        log: (message: string) => this.logger.info(message),
+      };
+      // testContext.page follows tab switches, new popups and closed tabs
+      this.pageManagers.set(
+        testContext,
+        new PageManager(scenarioContext, scenarioPage, timeout, (page) => {
+          testContext.page = page;
+        })
+      );
+
+      try {
+        // Before hooks run once the page exists, before navigating
+        const beforeHooks = await hookRegistry.run("Before", {
+          tags,
+          thisArg: testContext,
+        });
+        hookResults.push(...beforeHooks);
+        if (beforeHooks.some((hook) => hook.status === "failed")) {
+          status = "failed";
         }
-      }
 
-      // Process scenario steps only if background passed
-      if (status != "failed") {
-        // Execute scenario steps
-        for (const step of scenario.steps) {
-          const result = await this.executeStepWithRetries(step, testContext);
+        // Navigate to base URL for the scenario page
+        if (status != "failed") {
+          const baseURL = this.options.baseUrl;
+          this.logger.info(`Navigating scenario page to base URL: ${baseURL}`);
+          await scenarioPage.goto(baseURL);
+        }
+
+        // Execute feature and rule background steps, then scenario steps,
+        // stopping at the first failure
+        const backgroundSteps = this.getBackgroundSteps(feature, scenario);
+        if (status != "failed" && backgroundSteps.length > 0) {
+          this.logger.info(" Processing background steps...");
+        }
+        for (const step of [...backgroundSteps, ...scenario.steps]) {
+          if (status === "failed") break;
+          const { result, hookFailed } = await this.runStepWithHooks(
+            step,
+            testContext,
+            tags,
+            hookResults
+          );
           stepResults.push(result);
-          if (result.status === "failed") {
+          if (result.status === "failed" || hookFailed) {
             status = "failed";
-            break;
           }
         }
+      } catch (error) {
+        scenarioError = error as Error;
+        status = "failed";
+        this.logger.error(
+          `Scenario failed: ${scenario.name}: ${(error as Error).message}`
+        );
+
+        const enableScreenshots = this.options.screenshotOnFailure;
+        if (enableScreenshots) {
+          await this.takeScreenshotForPage(testContext.page, scenario.name);
+        }
       }
 
-      const endTime = new Date();
-      // const status = stepResults.some((r) => r.status === "failed" ) ? "failed" : "passed";
+      // After hooks always run, even when the scenario failed
+      const afterHooks = await hookRegistry.run("After", {
+        tags,
+        thisArg: testContext,
+        args: [
+          {
+            status,
+            error:
+              scenarioError ||
+              stepResults.find((r) => r.status === "failed")?.error,
+          },
+        ],
+      });
+      hookResults.push(...afterHooks);
+      if (afterHooks.some((hook) => hook.status === "failed")) {
+        status = "failed";
+      }
 
+      const endTime = new Date();
       this.logger.info(`Scenario ${status}: ${scenario.name}`);
+
+      // Get video and trace paths, including for failed scenarios
       videoPath = await this.getVideoPath(scenarioPage, scenario.name);
       tracePath = await this.getTracePath(scenarioContext, scenario.name);
       return {
         scenario,
         steps: stepResults,
+        hooks: hookResults.length > 0 ? hookResults : undefined,
         status,
         duration: endTime.getTime() - startTime.getTime(),
         startTime,
@@ -208,23 +283,20 @@ export class ScenarioRunner {
         videoPath,
         tracePath,
         embeddings,
+        variables: this.snapshotVariables(testContext.variables),
+        heals: this.elementResolver.takeHealEvents(scenarioContext),
       };
     } catch (error) {
+      // Errors outside steps and hooks (e.g. launching the context or
+      // collecting the video or trace) fail this scenario only; parallel
+      // runs wait on every scenario
       this.logger.error(
         `Scenario failed: ${scenario.name}: ${(error as Error).message}`
       );
-
-      const enableScreenshots = this.options.screenshotOnFailure;
-      if (enableScreenshots) {
-        await this.takeScreenshotForPage(scenarioPage, scenario.name);
-      }
-
-      // Get video path even for failed scenarios
-      videoPath = await this.getVideoPath(scenarioPage, scenario.name);
-      tracePath = await this.getTracePath(scenarioContext, scenario.name);
       return {
         scenario,
         steps: stepResults,
+        hooks: hookResults.length > 0 ? hookResults : undefined,
         status: "failed",
         duration: new Date().getTime() - startTime.getTime(),
         startTime,
@@ -232,11 +304,65 @@ export class ScenarioRunner {
         videoPath,
         tracePath,
         embeddings,
+        variables: this.snapshotVariables(variables),
+        heals:
+          scenarioContext &&
+          this.elementResolver.takeHealEvents(scenarioContext),
       };
     } finally {
       // Close the scenario-specific context to save the video
-      await scenarioContext.close();
+      await scenarioContext?.close();
+    }
+  }
+
+  /**
+   * Execute a step wrapped in BeforeStep/AfterStep hooks. A failing
+   * BeforeStep hook skips the step; any failing hook fails the scenario.
+   */
+  private async runStepWithHooks(
+    step: Step,
+    context: TestContext,
+    tags: string[],
+    hookResults: HookResult[]
+  ): Promise<{ result: StepResult; hookFailed: boolean }> {
+    const beforeHooks = await hookRegistry.run("BeforeStep", {
+      tags,
+      thisArg: context,
+      args: [step],
+      step,
+    });
+    hookResults.push(...beforeHooks);
+
+    const beforeFailed = beforeHooks.some((hook) => hook.status === "failed");
+    const result: StepResult = beforeFailed
+      ? { step, status: "skipped", duration: 0 }
+      : await this.executeStepWithRetries(step, context);
+
+    const afterHooks = await hookRegistry.run("AfterStep", {
+      tags,
+      thisArg: context,
+      args: [step, result],
+      step,
+    });
+    hookResults.push(...afterHooks);
+
+    return {
+      result,
+      hookFailed:
+        beforeFailed || afterHooks.some((hook) => hook.status === "failed"),
+    };
+  }
+
+  /**
+   * Feature background steps followed by the background of the scenario's rule
+   */
+  private getBackgroundSteps(feature: Feature, scenario: Scenario): Step[] {
+    const steps = [...(feature.background?.steps || [])];
+    if (scenario.ruleIndex !== undefined) {
+      const rule = feature.rules[scenario.ruleIndex];
+      steps.push(...(rule?.background?.steps || []));
     }
+    return steps;
   }
 
   private async createScenarioContext(
@@ -398,7 +524,7 @@ export class ScenarioRunner {
           if (enableScreenshots) {
             const screenshotPath = await this.takeScreenshotForPage(
               context.page,
-              `FIRST_FAILURE_${step.keyword}_${step.text
+              `FIRST_FAILURE_${step.effectiveKeyword}_${step.text
                 .replace(/\s+/g, "_")
                 .replace(/"/g, "")}`
             );
@@ -411,7 +537,7 @@ export class ScenarioRunner {
             // Add debug capture here
             await DOMDebugHelper.capturePageInfo(
               context.page,
-              `FIRST_FAILURE_${step.keyword}_${step.text
+              `FIRST_FAILURE_${step.effectiveKeyword}_${step.text
                 .replace(/\s+/g, "_")
                 .replace(/"/g, "")}`,
               this.options.reportDir
@@ -436,7 +562,7 @@ export class ScenarioRunner {
       if (enableScreenshots) {
         const screenshotPath = await this.takeScreenshotForPage(
           context.page,
-          `FINAL_FAILURE_${step.keyword}_${step.text
+          `FINAL_FAILURE_${step.effectiveKeyword}_${step.text
             .replace(/\s+/g, "_")
             .replace(/"/g, "")}`
         );
@@ -449,7 +575,7 @@ export class ScenarioRunner {
         // Add debug capture here
         await DOMDebugHelper.capturePageInfo(
           context.page,
-          `FInal_FAILURE_${step.keyword}_${step.text
+          `FInal_FAILURE_${step.effectiveKeyword}_${step.text
             .replace(/\s+/g, "_")
             .replace(/"/g, "")}`,
           this.options.reportDir
@@ -481,13 +607,45 @@ export class ScenarioRunner {
 
   private async interpretStep(step: Step, context: TestContext) {
     const { page } = context;
-    const fullStepText = `${step.keyword} ${step.text}`;
+    // "*" bullets read as the step they stand in for
+    const fullStepText = `${
+      step.keyword === "*" ? step.effectiveKeyword : step.keyword
+    } ${step.text}`;
     try {
-      // Parse the step using the new parser
-      const actionObj: StepAction = await parseStep(fullStepText);
+      // Custom step definitions are tried before the NLP interpreter
+      const match = stepRegistry.match(step, context.variables);
+      if (match) {
+        this.logger.info(
+          `Matched step definition: ${match.definition.keyword} ${match.definition.pattern}`
+        );
+        await match.definition.fn.apply(context, match.args);
+        return;
+      }
+
+      // Parse the step using the new parser, trained per Gherkin language.
+      // The English keyword is only meaningful to the English model.
+      const { language } = context.feature;
+      const actionObj: StepAction = await parseStep(
+        language === "en" ? fullStepText : step.text,
+        language,
+        context.variables
+      );
       this.logger.info(
-        `Parsed step action: ${actionObj.action}, locator: ${actionObj.locator}, elementType: ${actionObj.elementType}`
+        `Parsed step action: ${actionObj.action}, locator: ${actionObj.locator}, elementType: ${actionObj.elementType}${
+          actionObj.frame ? `, frame: ${actionObj.frame}` : ""
+        }${actionObj.section ? `, section: ${actionObj.section}` : ""}${
+          actionObj.row
+            ? `, row: ${actionObj.column ? `${actionObj.column} = ` : ""}${
+                actionObj.row
+              }`
+            : ""
+        }${actionObj.ordinal ? `, ordinal: ${actionObj.ordinal}` : ""}${
+          actionObj.position
+            ? `, ${actionObj.position.relation}: ${actionObj.position.anchor}`
+            : ""
+        }`
       );
+      const scope = this.getScope(actionObj);
       switch (actionObj.action) {
         case "navigate":
           const url = actionObj.value!.startsWith("http")
@@ -501,7 +659,8 @@ export class ScenarioRunner {
           const fillLocator = await this.elementResolver.resolve(
             page,
             actionObj.locator!,
-            actionObj.elementType
+            actionObj.elementType,
+            scope
           );
           await fillLocator.fill(actionObj.value!);
           // Wait for any potential response/redirect after filling
@@ -511,7 +670,8 @@ export class ScenarioRunner {
           const clickLocator = await this.elementResolver.resolve(
             page,
             actionObj.locator!,
-            actionObj.elementType
+            actionObj.elementType,
+            scope
           );
           // Get current URL before click to detect redirects
           const currenturl = page.url();
@@ -519,11 +679,15 @@ export class ScenarioRunner {
           // Wait for potential redirect/navigation after click
           await this.waitForRedirectOrPageStable(page, currenturl);
           break;
+        case "fillTable":
+          await this.fillFromDataTable(step, page, context.variables, scope);
+          break;
         case "select":
           const selectLocator = await this.elementResolver.resolve(
             page,
             actionObj.locator!,
-            actionObj.elementType
+            actionObj.elementType,
+            scope
           );
           await selectLocator.selectOption({ label: actionObj.value! });
           // Wait for any potential response/redirect after filling
@@ -549,6 +713,154 @@ export class ScenarioRunner {
         case "assertUrl":
           await this.waitForUrlStable(page, actionObj.value!);
           break;
+        case "check":
+        case "uncheck":
+          // 'Check "Remember me" from "Options"' names the option as the value
+          const toggleLocator = await this.elementResolver.resolve(
+            page,
+            actionObj.value || actionObj.locator!,
+            actionObj.elementType,
+            scope
+          );
+          if (actionObj.action === "check") {
+            await toggleLocator.check();
+          } else {
+            await toggleLocator.uncheck();
+          }
+          await this.waitForPageStable(page, { short: true });
+          break;
+        case "assertVisible":
+          await this.assertVisibility(
+            page,
+            actionObj.value!,
+            !actionObj.negated,
+            scope
+          );
+          break;
+        case "assertChecked":
+          await this.assertCheckedState(
+            page,
+            actionObj.locator!,
+            actionObj.elementType,
+            !actionObj.negated,
+            scope
+          );
+          break;
+        case "assertElementText":
+        case "assertValue":
+        case "assertEnabled":
+        case "assertCount":
+        case "assertTitle":
+        case "assertAttribute":
+          await this.assertElement(page, actionObj);
+          break;
+        case "assertTable":
+          await this.assertTable(step, page, actionObj, context.variables);
+          break;
+        case "press":
+          // Without an element the key goes to whatever has focus
+          if (actionObj.locator) {
+            const pressLocator = await this.elementResolver.resolve(
+              page,
+              actionObj.locator,
+              actionObj.elementType,
+              scope
+            );
+            await pressLocator.press(actionObj.value!);
+          } else {
+            await page.keyboard.press(actionObj.value!);
+          }
+          await this.waitForPageStable(page, { short: true });
+          break;
+        case "hover":
+          const hoverLocator = await this.elementResolver.resolve(
+            page,
+            actionObj.locator!,
+            actionObj.elementType,
+            scope
+          );
+          await hoverLocator.hover();
+          break;
+        case "dragAndDrop":
+          const dragSource = await this.elementResolver.resolve(
+            page,
+            actionObj.locator!,
+            undefined,
+            scope
+          );
+          const dropTarget = await this.elementResolver.resolve(
+            page,
+            actionObj.target!,
+            undefined,
+            scope
+          );
+          await dragSource.dragTo(dropTarget);
+          await this.waitForPageStable(page, { short: true });
+          break;
+        case "upload":
+          await this.uploadFiles(
+            page,
+            actionObj.locator!,
+            actionObj.value!,
+            scope
+          );
+          break;
+        case "waitFor":
+          await this.waitForCondition(page, actionObj);
+          break;
+        case "switchTab":
+          const tabs = this.pageManagers.get(context)!;
+          if (actionObj.value) {
+            await tabs.switchTo(actionObj.value);
+          } else if (actionObj.tabIndex) {
+            await tabs.switchTo(actionObj.tabIndex);
+          } else {
+            await tabs.switchToNewest();
+          }
+          await this.waitForPageStable(context.page, { short: true });
+          break;
+        case "closeTab":
+          await this.pageManagers
+            .get(context)!
+            .close(actionObj.value ?? actionObj.tabIndex);
+          break;
+        case "acceptDialog":
+        case "dismissDialog":
+          // Answers the next dialog, so this step goes before the one that opens it
+          this.pageManagers
+            .get(context)!
+            .respondToNextDialog(
+              actionObj.action === "acceptDialog",
+              actionObj.value
+            );
+          break;
+        case "assertDialog":
+          await this.assertDialogMessage(context, actionObj);
+          break;
+        case "remember":
+          const captured = await this.captureValue(page, actionObj);
+          context.variables[actionObj.variable!] = captured;
+          this.logger.info(`Stored ${actionObj.variable} = "${captured}"`);
+          break;
+        case "doubleClick":
+          const doubleClickLocator = await this.elementResolver.resolve(
+            page,
+            actionObj.locator!,
+            actionObj.elementType,
+            scope
+          );
+          await doubleClickLocator.dblclick();
+          await this.waitForPageStable(page, { short: true });
+          break;
+        case "rightClick":
+          const rightClickLocator = await this.elementResolver.resolve(
+            page,
+            actionObj.locator!,
+            actionObj.elementType,
+            scope
+          );
+          await rightClickLocator.click({ button: "right" });
+          break;
         default:
           throw new Error(`Unknown action: ${actionObj.action}`);
       }
@@ -571,6 +883,154 @@ export class ScenarioRunner {
     }
   }
 
+  /**
+   * Fill one field per data table row. Rows are "| field | value |"; an
+   * optional "| field | value |" header row is skipped.
+   */
+  private async fillFromDataTable(
+    step: Step,
+    page: Page,
+    variables: TestContext["variables"],
+    scope: ResolveOptions
+  ): Promise<void> {
+    if (!step.dataTable || step.dataTable.rows.length === 0) {
+      throw new Error(
+        `Step "${step.text}" requires a data table of fields and values`
+      );
+    }
+
+    const rows = [...step.dataTable.rows];
+    const [first] = rows;
+    if (
+      first[0]?.toLowerCase() === "field" &&
+      first[1]?.toLowerCase() === "value"
+    ) {
+      rows.shift();
+    }
+
+    for (const [field, value] of rows) {
+      if (field === undefined || value === undefined) {
+        throw new Error(
+          `Data table rows must have a field and a value (step: "${step.text}")`
+        );
+      }
+      const locator = await this.elementResolver.resolve(
+        page,
+        field,
+        "input",
+        scope
+      );
+      await locator.fill(resolvePlaceholders(value, variables));
+    }
+    // Wait for any potential response/redirect after filling
+    await this.waitForPageStable(page, { short: true });
+  }
+
+  /**
+   * Compare a table or grid with the step's data table, whose first row
+   * names the columns to check. Re-checked until the timeout so tables that
+   * load asynchronously can settle.
+   */
+  private async assertTable(
+    step: Step,
+    page: Page,
+    action: StepAction,
+    variables: TestContext["variables"]
+  ): Promise<void> {
+    if (!step.dataTable || step.dataTable.rows.length === 0) {
+      throw new Error(
+        `Step "${step.text}" requires a data table with a header row of column names`
+      );
+    }
+
+    const [columns, ...expected] = step.dataTable.rows.map((row) =>
+      row.map((cell) => resolvePlaceholders(cell, variables).trim())
+    );
+    const table = action.locator ? `"${action.locator}" table` : "table";
+    const rows =
+      action.tableMatch === "exact"
+        ? "exactly these rows"
+        : action.tableMatch === "ordered"
+          ? "these rows in order"
+          : "these rows";
+
+    let failure = "";
+    const passed = await this.pollUntil(async () => {
+      failure = await this.compareTable(page, action, columns, expected).catch(
+        (error) => (error as Error).message
+      );
+      return failure === "";
+    }, this.options.timeout || 10000);
+    if (!passed) {
+      throw new Error(
+        `Assertion failed: ${table} should contain ${rows}\n${failure}`
+      );
+    }
+    this.logger.info(`Assertion passed: ${table} contains ${rows}`);
+  }
+
+  /**
+   * Why the table does not match the expected rows ("exact": the same rows
+   * in the same order, "subset": each row somewhere, "ordered": each row in
+   * the given order with others in between), or "" when it does
+   */
+  private async compareTable(
+    page: Page,
+    action: StepAction,
+    columns: string[],
+    expected: string[][]
+  ): Promise<string> {
+    const { headers, rows } = await this.elementResolver.readTable(
+      page,
+      action.locator,
+      this.getScope(action)
+    );
+    const indexes = columns.map((column) => columnIndex(headers, column));
+    const unknown = columns.filter((_, i) => indexes[i] === -1);
+    if (unknown.length > 0) {
+      return `No column ${unknown.map((c) => `"${c}"`).join(", ")} (columns: ${
+        headers.map((h) => `"${h}"`).join(", ") || "none"
+      })`;
+    }
+
+    const actual = rows.map((cells) => indexes.map((i) => cells[i] ?? ""));
+    const same = (a: string[], b: string[]) =>
+      a.every((cell, i) => cell === b[i]);
+    const format = (table: string[][]) =>
+      [columns, ...table].map((row) => `| ${row.join(" | ")} |`).join("\n");
+
+    switch (action.tableMatch) {
+      case "exact":
+        if (
+          actual.length === expected.length &&
+          expected.every((row, i) => same(row, actual[i]))
+        ) {
+          return "";
+        }
+        break;
+      case "ordered": {
+        let next = 0;
+        for (const row of actual) {
+          if (next < expected.length && same(expected[next], row)) next++;
+        }
+        if (next === expected.length) return "";
+        break;
+      }
+      default: {
+        const missing = expected.filter(
+          (row) => !actual.some((other) => same(row, other))
+        );
+        if (missing.length === 0) return "";
+        return `Missing rows:\n${format(missing)}\nActual rows:\n${format(
+          actual
+        )}`;
+      }
+    }
+    return `Expected rows:\n${format(expected)}\nActual rows:\n${format(
+      actual
+    )}`;
+  }
+
   private serializeError(error: Error): any {
     const serialized: any = {
       name: error.name,
@@ -584,6 +1044,430 @@ export class ScenarioRunner {
     return serialized;
   }
 
+  /**
+   * Assert an element is visible, or (negated) hidden or absent
+   */
+  private async assertVisibility(
+    page: Page,
+    elementName: string,
+    visible: boolean,
+    scope: ResolveOptions
+  ): Promise<void> {
+    await this.waitForPageStable(page, { short: true });
+    const locator = await this.elementResolver.find(
+      page,
+      elementName,
+      undefined,
+      scope
+    );
+
+    if (visible) {
+      if (!locator) {
+        throw new Error(`Assertion failed: "${elementName}" is not visible`);
+      }
+    } else if (locator) {
+      // Give the element a chance to disappear (e.g. a closing spinner)
+      try {
+        await locator.waitFor({
+          state: "hidden",
+          timeout: this.options.timeout || 10000,
+        });
+      } catch {
+        throw new Error(`Assertion failed: "${elementName}" is still visible`);
+      }
+    }
+    this.logger.info(
+      `Assertion passed: "${elementName}" is ${visible ? "visible" : "not visible"}`
+    );
+  }
+
+  /**
+   * Assert a checkbox or radio button is checked, or (negated) unchecked
+   */
+  private async assertCheckedState(
+    page: Page,
+    elementName: string,
+    elementType: StepAction["elementType"],
+    checked: boolean,
+    scope: ResolveOptions
+  ): Promise<void> {
+    const locator = await this.elementResolver.resolve(
+      page,
+      elementName,
+      elementType,
+      scope
+    );
+    await this.expectAssertion(
+      `"${elementName}" ${elementType || "checkbox"} should be ${
+        checked ? "checked" : "unchecked"
+      }`,
+      () =>
+        expect(locator).toBeChecked({
+          checked,
+          timeout: this.options.timeout || 10000,
+        })
+    );
+  }
+
+  /**
+   * Text, value, enabled state, count, title and attribute assertions,
+   * using Playwright's auto-retrying expect
+   */
+  private async assertElement(page: Page, action: StepAction): Promise<void> {
+    const timeout = this.options.timeout || 10000;
+    const name = action.locator!;
+    const type = action.elementType;
+    const scope = this.getScope(action);
+    const target = `"${name}"${type ? ` ${type}` : ""}`;
+    const expected = action.value ?? "";
+
+    switch (action.action) {
+      case "assertElementText": {
+        const locator = await this.elementResolver.resolve(
+          page,
+          name,
+          type,
+          scope
+        );
+        const contains = action.match === "contains";
+        await this.expectAssertion(
+          `${target} should ${contains ? "contain" : "have"} text "${expected}"`,
+          () =>
+            contains
+              ? expect(locator).toContainText(expected, { timeout })
+              : expect(locator).toHaveText(expected, { timeout })
+        );
+        break;
+      }
+      case "assertValue": {
+        const locator = await this.elementResolver.resolve(
+          page,
+          name,
+          type,
+          scope
+        );
+        await this.expectAssertion(
+          `${target} should have value "${expected}"`,
+          () => expect(locator).toHaveValue(expected, { timeout })
+        );
+        break;
+      }
+      case "assertEnabled": {
+        const locator = await this.elementResolver.resolve(
+          page,
+          name,
+          type,
+          scope
+        );
+        await this.expectAssertion(
+          `${target} should be ${action.negated ? "disabled" : "enabled"}`,
+          () =>
+            action.negated
+              ? expect(locator).toBeDisabled({ timeout })
+              : expect(locator).toBeEnabled({ timeout })
+        );
+        break;
+      }
+      case "assertCount": {
+        const count = action.count ?? 0;
+        const description = `${target} should appear ${count} time(s)`;
+        const locator = await this.elementResolver.resolveAll(
+          page,
+          name,
+          type,
+          scope
+        );
+        if (!locator) {
+          if (count === 0) break;
+          throw new Error(
+            `Assertion failed: ${description}\nNo elements matching "${name}" were found`
+          );
+        }
+        await this.expectAssertion(description, () =>
+          expect(locator).toHaveCount(count, { timeout })
+        );
+        break;
+      }
+      case "assertTitle": {
+        const contains = action.match === "contains";
+        await this.expectAssertion(
+          `page title should ${contains ? "contain" : "be"} "${expected}"`,
+          () =>
+            expect(page).toHaveTitle(
+              contains
+                ? new RegExp(expected.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+                : expected,
+              { timeout }
+            )
+        );
+        break;
+      }
+      case "assertAttribute": {
+        const locator = await this.elementResolver.resolve(
+          page,
+          name,
+          type,
+          scope
+        );
+        await this.expectAssertion(
+          `${target} should have attribute "${action.attribute}" with value "${expected}"`,
+          () =>
+            expect(locator).toHaveAttribute(action.attribute!, expected, {
+              timeout,
+            })
+        );
+        break;
+      }
+    }
+  }
+
+  /**
+   * Upload fixture files (comma separated, relative to src/testdata) to a
+   * file input. Hidden inputs are common, so when the named element is a
+   * button or drop zone the files go through the file chooser it opens.
+   */
+  private async uploadFiles(
+    page: Page,
+    elementName: string,
+    fileNames: string,
+    scope: ResolveOptions
+  ): Promise<void> {
+    const files = fileNames
+      .split(",")
+      .map((fileName) => testDataManager.getFixturePath(fileName.trim()));
+
+    const locator =
+      (await this.elementResolver.find(page, elementName, "input", scope)) ||
+      (await this.elementResolver.find(page, elementName, undefined, scope));
+    const isFileInput = await locator
+      ?.evaluate((el) => el instanceof HTMLInputElement && el.type === "file")
+      .catch(() => false);
+
+    if (locator && isFileInput) {
+      await locator.setInputFiles(files);
+    } else if (locator) {
+      const [chooser] = await Promise.all([
+        page.waitForEvent("filechooser", {
+          timeout: this.options.timeout || 10000,
+        }),
+        locator.click(),
+      ]);
+      await chooser.setFiles(files);
+    } else {
+      // Fall back to the page's only file input, visible or not
+      const fileInputs = page.locator("input[type='file']");
+      if ((await fileInputs.count()) !== 1) {
+        throw new Error(
+          `CRITICAL: no file input found for "${elementName}" to upload ${fileNames}`
+        );
+      }
+      await fileInputs.setInputFiles(files);
+    }
+    this.logger.info(`Uploaded ${fileNames} to "${elementName}"`);
+    await this.waitForPageStable(page, { short: true });
+  }
+
+  /**
+   * Where a step looks for its elements ("within the Payment frame, ...",
+   * "in the Shipping Address section", "in row containing 'SKU-123'") and
+   * which match it means ("the 2nd ...", "... next to 'Backpack'")
+   */
+  private getScope(action: StepAction): ResolveOptions {
+    return {
+      frame: action.frame,
+      section: action.section,
+      row: action.row,
+      column: action.column,
+      ordinal: action.ordinal,
+      position: action.position,
+    };
+  }
+
+  /**
+   * Assert the message of the last alert, confirm or prompt dialog
+   */
+  private async assertDialogMessage(
+    context: TestContext,
+    action: StepAction
+  ): Promise<void> {
+    const dialog = await this.pageManagers.get(context)!.lastDialog();
+    const expected = action.value!;
+    const passed =
+      action.match === "contains"
+        ? dialog.message.includes(expected)
+        : dialog.message === expected;
+    const description = `dialog message should ${
+      action.match === "contains" ? "contain" : "be"
+    } "${expected}"`;
+    if (!passed) {
+      throw new Error(
+        `Assertion failed: ${description}\nReceived: "${dialog.message}" (${dialog.type} dialog, ${dialog.action})`
+      );
+    }
+    this.logger.info(`Assertion passed: ${description}`);
+  }
+
+  /**
+   * Read the text or value of an element, or the page URL or title
+   */
+  private async captureValue(page: Page, action: StepAction): Promise<string> {
+    switch (action.capture) {
+      case "url":
+        return page.url();
+      case "title":
+        return page.title();
+      default:
+        const locator = await this.elementResolver.resolve(
+          page,
+          action.locator!,
+          action.elementType,
+          this.getScope(action)
+        );
+        return action.capture === "value"
+          ? locator.inputValue()
+          : (await locator.innerText()).trim();
+    }
+  }
+
+  /**
+   * Scenario variables as strings for the report
+   */
+  private snapshotVariables(
+    variables: TestContext["variables"]
+  ): { [key: string]: string } | undefined {
+    const entries = Object.entries(variables);
+    if (entries.length === 0) return undefined;
+    return Object.fromEntries(
+      entries.map(([key, value]) => [
+        key,
+        typeof value === "string" ? value : JSON.stringify(value),
+      ])
+    );
+  }
+
+  /**
+   * Explicit wait steps: wait until an element appears, disappears or
+   * contains some text, for up to the step's own timeout (default TIMEOUT).
+   * The element is looked up every POLLING_INTERVAL ms until found, each
+   * lookup limited to the time left; Playwright then waits for its state.
+   */
+  private async waitForCondition(
+    page: Page,
+    action: StepAction
+  ): Promise<void> {
+    const timeout = action.timeout || this.options.timeout || 10000;
+    const deadline = Date.now() + timeout;
+    const remaining = () => Math.max(deadline - Date.now(), 1);
+    const name = action.locator!;
+    const scope = this.getScope(action);
+    const find = () => this.elementResolver.find(page, name, undefined, scope);
+    const description =
+      action.waitFor === "hidden"
+        ? `"${name}" to disappear`
+        : action.waitFor === "text"
+          ? `"${name}" to contain "${action.value}"`
+          : `"${name}" to appear`;
+    const timedOut = (detail = "") =>
+      new Error(
+        `Timed out after ${timeout}ms waiting for ${description}${detail}`
+      );
+
+    this.logger.info(`Waiting up to ${timeout}ms for ${description}`);
+    if (action.waitFor === "hidden") {
+      // Not found means it is already gone, as does a frame, section or row
+      // that is no longer on the page; other lookup errors still fail
+      const lookup = find().catch((error: Error) => {
+        if (/ not found on the page\.$/.test(error.message)) return null;
+        throw error;
+      });
+      const locator = await this.beforeDeadline(lookup, deadline);
+      if (locator === undefined) throw timedOut();
+      if (locator) {
+        await locator
+          .waitFor({ state: "hidden", timeout: remaining() })
+          .catch(() => {
+            throw timedOut();
+          });
+      }
+    } else {
+      let locator = null as Locator | null;
+      const found = await this.pollUntil(async () => {
+        locator = (await this.beforeDeadline(find(), deadline)) || null;
+        return locator !== null;
+      }, timeout);
+      if (!found || !locator) throw timedOut();
+
+      if (action.waitFor === "text") {
+        const element = locator;
+        await expect(element)
+          .toContainText(action.value!, { timeout: remaining() })
+          .catch(async () => {
+            const lastText = (await element.innerText().catch(() => "")).trim();
+            throw timedOut(` (last text: "${lastText.slice(0, 200)}")`);
+          });
+      }
+    }
+    this.logger.info(`Done waiting for ${description}`);
+  }
+
+  /**
+   * The promise's value, or undefined if it has not settled by the deadline.
+   * The work itself cannot be cancelled; a late failure is ignored.
+   */
+  private async beforeDeadline<T>(
+    promise: Promise<T>,
+    deadline: number
+  ): Promise<T | undefined> {
+    promise.catch(() => {});
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<undefined>((resolve) => {
+      timer = setTimeout(
+        () => resolve(undefined),
+        Math.max(deadline - Date.now(), 0)
+      );
+    });
+    try {
+      return await Promise.race([promise, expired]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Re-check a condition every POLLING_INTERVAL ms until it holds or the
+   * timeout runs out. Errors thrown by the check count as "not yet".
+   */
+  private async pollUntil(
+    condition: () => Promise<boolean>,
+    timeout: number
+  ): Promise<boolean> {
+    const interval = this.options.pollingInterval || 250;
+    const deadline = Date.now() + timeout;
+    while (true) {
+      if (await condition().catch(() => false)) return true;
+      if (Date.now() + interval > deadline) return false;
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  /**
+   * Run an expect() call, reporting failures as "Assertion failed: ..."
+   * followed by Playwright's expected/received details
+   */
+  private async expectAssertion(
+    description: string,
+    assertion: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await assertion();
+    } catch (error) {
+      throw new Error(
+        `Assertion failed: ${description}\n${(error as Error).message}`
+      );
+    }
+    this.logger.info(`Assertion passed: ${description}`);
+  }
+
   /**
    * Wait for page to become stable after potential redirects
    * */
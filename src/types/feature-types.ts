@@ -2,10 +2,29 @@ import { Browser, BrowserContext, Page } from "playwright";
 
 // Core interfaces for the BDD framework
 
+export type PrimaryKeyword = "Given" | "When" | "Then";
+
 export interface Step {
-  keyword: "Given" | "When" | "Then" | "And" | "But";
+  keyword: PrimaryKeyword | "And" | "But" | "*";
+  // What the step really is: And, But and * inherit the keyword of the
+  // previous step (Given when they start a block)
+  effectiveKeyword: PrimaryKeyword;
   text: string;
   line: number;
+  // Optional step argument: a "| a | b |" table or a """ block
+  dataTable?: DataTable;
+  docString?: DocString;
+}
+
+export interface DataTable {
+  rows: string[][];
+  line: number;
+}
+
+export interface DocString {
+  content: string;
+  mediaType?: string;
+  line: number;
 }
 
 export interface Scenario {
@@ -13,6 +32,27 @@ export interface Scenario {
   steps: Step[];
   tags: string[];
   line: number;
+  // Index in Feature.rules of the enclosing Rule, if the scenario is
+  // declared inside one (rule names need not be unique)
+  ruleIndex?: number;
+  // Set when the scenario was expanded from a Scenario Outline row
+  outline?: OutlineExample;
+}
+
+export interface OutlineExample {
+  name: string;
+  line: number;
+  examplesName?: string;
+  rowIndex: number;
+  parameters: { [key: string]: string };
+}
+
+export interface Examples {
+  name?: string;
+  tags: string[];
+  header: string[];
+  rows: Array<{ cells: string[]; line: number }>;
+  line: number;
 }
 
 export interface Background {
@@ -20,25 +60,49 @@ export interface Background {
   line: number;
 }
 
+export interface Rule {
+  name: string;
+  description?: string;
+  background?: Background;
+  tags: string[];
+  line: number;
+}
+
 export interface Feature {
   name: string;
   description?: string;
   background?: Background;
+  // All scenarios in file order, including those declared inside rules
   scenarios: Scenario[];
+  rules: Rule[];
   tags: string[];
   filePath: string;
+  // Gherkin language from the "# language:" header ("en" by default)
+  language: string;
+}
+
+// A feature file to run, optionally narrowed to scenarios at specific lines
+// (from a "path/to/file.feature:42" CLI argument)
+export interface FeatureTarget {
+  filePath: string;
+  lines: number[];
 }
 
 // Step definition types
-export type StepDefinitionFunction = (
-  this: TestContext,
-  ...args: any[]
-) => Promise<void> | void;
+
+// Arguments passed to a step definition: the converted parameters or regex
+// captures (undefined for unmatched optional groups), then the step's data
+// table or docstring
+export type StepArgument = string | number | DataTable | DocString | undefined;
+
+export type StepDefinitionFunction<
+  Args extends StepArgument[] = StepArgument[],
+> = (this: TestContext, ...args: Args) => Promise<void> | void;
 
 export interface StepDefinition {
   pattern: RegExp | string;
   fn: StepDefinitionFunction;
-  keyword: "Given" | "When" | "Then";
+  keyword: PrimaryKeyword;
 }
 
 // Environment configuration - flexible key-value pairs
@@ -48,6 +112,7 @@ export interface EnvironmentConfig {
   HEADLESS?: boolean;
   BROWSER?: "chromium" | "firefox" | "webkit";
   TIMEOUT?: number;
+  POLLING_INTERVAL?: number;
   RETRIES?: number;
   VIEWPORT_WIDTH?: number;
   VIEWPORT_HEIGHT?: number;
@@ -59,6 +124,8 @@ export interface EnvironmentConfig {
   SLOW_MOTION?: number;
   PARALLEL_EXECUTION?: boolean;
   MAX_WORKERS?: number;
+  STEPS_DIR?: string;
+  REGISTRY_MODE?: RegistryMode;
 
   [key: string]: string | number | boolean | undefined;
 }
@@ -87,6 +154,32 @@ export interface TestContext {
   variables: { [key: string]: any };
 }
 
+// How the element resolver treats registries/: "learn" saves new and
+// healed selectors, "readonly" writes proposed changes to a patch file for
+// review, "strict" fails steps whose element is not registered
+export type RegistryMode = "learn" | "readonly" | "strict";
+
+// Where an element is looked for: the frame, section and table row it is
+// in, and which of several matches
+export interface ResolveOptions {
+  // Only look inside the iframe with this name, title, id or URL fragment
+  frame?: string;
+  // Only look inside the container with this heading, landmark name or
+  // fieldset legend
+  section?: string;
+  // Only look inside the table row containing this text, or with column
+  // set, the row whose cell in that column is this text
+  row?: string;
+  column?: string;
+  // Which match: 1-based, or -1 for the last one
+  ordinal?: number;
+  // The match nearest to (or above, below, ...) the text of an anchor
+  position?: { relation: Relation; anchor: string };
+}
+
+// Position of an element relative to an anchor text
+export type Relation = "near" | "above" | "below" | "right-of" | "left-of";
+
 // Execution options
 export interface ExecutionOptions {
   environment: string;
@@ -97,6 +190,8 @@ export interface ExecutionOptions {
   browser?: "chromium" | "firefox" | "webkit";
   trace?: boolean;
   timeout?: number;
+  // How often wait steps re-check their condition (ms)
+  pollingInterval?: number;
   retries?: number;
   tags?: string[];
   excludeTags?: string[];
@@ -106,6 +201,9 @@ export interface ExecutionOptions {
   slowMotion?: number;
   viewportWidth?: number;
   viewportHeight?: number;
+  // Folder with custom Given/When/Then step definition files
+  stepsDir?: string;
+  registryMode?: RegistryMode;
 }
 
 // Embedding interface for attachments
@@ -124,9 +222,37 @@ export interface StepResult {
   embeddings?: Embedding[];
 }
 
+export type HookType =
+  | "BeforeAll"
+  | "AfterAll"
+  | "BeforeFeature"
+  | "AfterFeature"
+  | "Before"
+  | "After"
+  | "BeforeStep"
+  | "AfterStep";
+
+// An error as stored in results, so it survives the JSON report
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export interface HookResult {
+  type: HookType;
+  name?: string;
+  status: "passed" | "failed";
+  duration: number;
+  error?: SerializedError;
+  // Step the hook ran around (BeforeStep/AfterStep only)
+  step?: Step;
+}
+
 export interface ScenarioResult {
   scenario: Scenario;
   steps: StepResult[];
+  hooks?: HookResult[];
   status: "passed" | "failed" | "skipped";
   duration: number;
   startTime: Date;
@@ -134,22 +260,58 @@ export interface ScenarioResult {
   videoPath?: string;
   tracePath?: string;
   embeddings?: Embedding[];
+  // Scenario variables at the end of the run, for debugging
+  variables?: { [key: string]: string };
+  // Registry selectors that stopped matching and were replaced
+  heals?: HealEvent[];
+}
+
+export interface HealEvent {
+  // Registry file (page name) and key of the element
+  registry: string;
+  key: string;
+  element: string;
+  // The selector that no longer matched and the one that did
+  from: string;
+  to: string;
+  // "fallback": another saved candidate matched; "rediscovered": the
+  // element was found again by name and its selector added
+  strategy: "fallback" | "rediscovered";
+  timestamp: Date;
 }
 
 export interface FeatureResult {
   feature: Feature;
+  // Rule names in declaration order, used to group scenarios in the report
+  rules: string[];
   scenarios: ScenarioResult[];
-  status: "passed" | "failed" | "skipped";
+  hooks?: HookResult[];
+  // "errored" features could not be parsed and have no scenarios
+  status: "passed" | "failed" | "skipped" | "errored";
+  parseError?: ParseErrorDetails;
   duration: number;
 }
 
+// Where a feature file failed to parse (see GherkinParseError)
+export interface ParseErrorDetails {
+  message: string;
+  filePath?: string;
+  line: number;
+  column: number;
+  snippet: string;
+}
+
 export interface TestReport {
   features: FeatureResult[];
+  // BeforeAll/AfterAll results
+  hooks?: HookResult[];
   summary: {
     total: number;
     passed: number;
     failed: number;
     skipped: number;
+    // Feature files that could not be parsed
+    errored?: number;
     duration: number;
   };
   startTime: Date;
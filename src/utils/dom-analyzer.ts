@@ -1,18 +1,46 @@
-import { Page } from "playwright";
+import { Frame, Locator, Page } from "playwright";
 import stringSimilarity from "string-similarity";
 import Logger from "./logger";
 
+// HTML tables and ARIA tables/grids
+export const TABLE_SELECTOR =
+  "table, [role='table'], [role='grid'], [role='treegrid']";
+// Rows with data cells (not header rows), in the order readTable lists them
+export const DATA_ROW_SELECTOR =
+  "tr:has(td), [role='row']:has([role='cell'], [role='gridcell'])";
+
+// Header texts and data rows, with cells spanning several columns repeated
+// so that rows[i][j] is the cell under headers[j]
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Position of a column by header text: an exact (case-insensitive) match,
+ * else the first header containing it. -1 when no header matches.
+ */
+export function columnIndex(headers: string[], column: string): number {
+  const target = column.toLowerCase().trim();
+  const lower = headers.map((header) => header.toLowerCase());
+  const exact = lower.indexOf(target);
+  return exact !== -1
+    ? exact
+    : lower.findIndex((header) => header.includes(target));
+}
+
 export class DOMAnalyzer {
   private logger = new Logger();
   private readonly SIMILARITY_THRESHOLD = 0.6;
 
   async analyzeElementAcrossFrames(
     page: Page,
-    description: string
+    description: string,
+    frames: Frame[] = page.frames()
   ): Promise<string[]> {
     let allSuggestions: string[] = [];
 
-    for (const frame of page.frames()) {
+    for (const frame of frames) {
       try {
         const elements = await frame.evaluate(() => {
           const items: any[] = [];
@@ -24,6 +52,8 @@ export class DOMAnalyzer {
               "input",
               "a[href]",
               "[role='button']",
+              "[role='checkbox']",
+              "[role='radio']",
               "[data-testid]",
               "select",
             ];
@@ -37,6 +67,7 @@ export class DOMAnalyzer {
                 id: element.id || "",
                 name: (element as any).name || "",
                 placeholder: (element as any).placeholder || "",
+                ariaLabel: element.getAttribute("aria-label") || "",
                 dataTestId:
                   element.getAttribute("data-testid") ||
                   element.getAttribute("data-test") ||
@@ -74,9 +105,87 @@ export class DOMAnalyzer {
     return [...new Set(allSuggestions)];
   }
 
+  /**
+   * Read a <table> or ARIA grid: the column headers (the last header row,
+   * from <th> or role=columnheader cells) and the text of each data row
+   */
+  async readTable(table: Locator): Promise<TableData> {
+    return table.evaluate((el, dataRowSelector) => {
+      const cellSelector =
+        "td, th, [role='cell'], [role='gridcell'], [role='rowheader'], [role='columnheader']";
+      const text = (cell: Element) =>
+        ((cell as HTMLElement).innerText ?? cell.textContent ?? "")
+          .replace(/\s+/g, " ")
+          .trim();
+      // Cells of a row, repeated for colspan so they line up with headers
+      const cellTexts = (row: Element) =>
+        Array.from(row.children)
+          .filter((cell) => cell.matches(cellSelector))
+          .flatMap((cell) =>
+            Array(
+              Math.max(1, (cell as HTMLTableCellElement).colSpan || 1)
+            ).fill(text(cell))
+          );
+
+      const headerRows = Array.from(
+        el.querySelectorAll("tr, [role='row']")
+      ).filter(
+        (row) =>
+          !row.matches(dataRowSelector) &&
+          row.querySelector("th, [role='columnheader']")
+      );
+      const headerRow = headerRows[headerRows.length - 1];
+      return {
+        headers: headerRow ? cellTexts(headerRow) : [],
+        rows: Array.from(el.querySelectorAll(dataRowSelector)).map(cellTexts),
+      };
+    }, DATA_ROW_SELECTOR);
+  }
+
+  /**
+   * The cell of a table row under a column header, or null when the row's
+   * table has no such column
+   */
+  async cellInRow(row: Locator, column: string): Promise<Locator | null> {
+    const table = row
+      .locator(
+        "xpath=ancestor::*[self::table or @role='table' or @role='grid' or @role='treegrid'][1]"
+      )
+      .first();
+    if ((await table.count().catch(() => 0)) === 0) return null;
+
+    const { headers } = await this.readTable(table);
+    const index = columnIndex(headers, column);
+    if (index === -1) return null;
+
+    // Map the column back to the row's own cells, which may span columns
+    const cellSelector =
+      ":scope > td, :scope > th, :scope > [role='cell'], :scope > [role='gridcell'], :scope > [role='rowheader']";
+    const spans = await row
+      .locator(cellSelector)
+      .evaluateAll((cells) =>
+        cells.map((cell) =>
+          Math.max(1, (cell as HTMLTableCellElement).colSpan || 1)
+        )
+      );
+    let covered = 0;
+    for (let i = 0; i < spans.length; i++) {
+      covered += spans[i];
+      if (index < covered) return row.locator(cellSelector).nth(i);
+    }
+    return null;
+  }
+
   private elementMatches(el: any, description: string): boolean {
     const target = description.toLowerCase().trim();
-    const attributes = [el.text, el.id, el.name, el.placeholder, el.dataTestId]
+    const attributes = [
+      el.text,
+      el.id,
+      el.name,
+      el.placeholder,
+      el.ariaLabel,
+      el.dataTestId,
+    ]
       .map((v) => v.toLowerCase().trim())
       .filter((v) => v !== "");
 
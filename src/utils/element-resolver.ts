@@ -1,15 +1,108 @@
-import { Page, Locator } from "playwright";
-import { DOMAnalyzer } from "./dom-analyzer";
+import { BrowserContext, Frame, Page, Locator } from "playwright";
+import {
+  columnIndex,
+  DATA_ROW_SELECTOR,
+  DOMAnalyzer,
+  TABLE_SELECTOR,
+  TableData,
+} from "./dom-analyzer";
 import Logger from "./logger";
+import {
+  HealEvent,
+  Relation,
+  RegistryMode,
+  ResolveOptions,
+} from "../types/feature-types";
+import { proposedRegistryEntry, proposeRegistryEntry } from "./registry-patch";
+import { registryStore } from "./registry-store";
+import { pageIdentity } from "./page-identity";
 import * as fs from "fs";
 import * as path from "path";
 
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * A registry entry lists the selectors known to find an element, the one
+ * that last worked first. Entries saved before candidates were tracked are
+ * a selector string, or the selector plus the iframe it belongs to.
+ */
+type RegistryEntry =
+  { candidates: Candidate[] } | string | { selector: string; frame: FrameRef };
+
+// A selector for a registry element (in the main page first, then any
+// iframe, unless it has a frame) and how well it has held up
+interface Candidate {
+  selector: string;
+  frame?: FrameRef;
+  hits: number;
+  misses: number;
+  // ISO time of the last hit
+  lastVerified?: string;
+}
+
+// The registry file and key an element is saved under
+interface RegistryRef {
+  name: string;
+  path: string;
+  key: string;
+  element: string;
+}
+
+// Older candidates beyond this are dropped when a new one is added
+const MAX_CANDIDATES = 5;
+// Selectors saved for a newly found element: one plus fallbacks
+const MAX_SYNTHESIZED = 3;
+
+// An iframe by name, or by URL without query and hash
+interface FrameRef {
+  name?: string;
+  url?: string;
+}
+
+interface FrameMatch {
+  locator: Locator;
+  frame: Frame;
+}
+
+// Where to search: a frame, or a section or row container inside it
+interface SearchRoot {
+  frame: Frame;
+  root: Frame | Locator;
+}
+
+const HEADING_TAGS = ["h1", "h2", "h3", "h4", "h5", "h6", "legend", "caption"];
+const LANDMARK_ROLES = [
+  "region",
+  "form",
+  "group",
+  "dialog",
+  "navigation",
+  "complementary",
+  "tabpanel",
+] as const;
+
+// 1 → "1st", 2 → "2nd", 11 → "11th"
+function ordinalSuffix(n: number): string {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const mod100 = n % 100;
+  return `${n}${
+    suffixes[(mod100 - 20) % 10] || suffixes[mod100] || suffixes[0]
+  }`;
+}
+
 export class ElementResolver {
   private logger = new Logger();
   private domAnalyzer = new DOMAnalyzer();
   private registriesDir = path.join(process.cwd(), "registries");
+  // Heal events per browser context (one per scenario) until collected
+  private heals = new WeakMap<BrowserContext, HealEvent[]>();
 
-  constructor() {
+  /**
+   * @param mode - "learn" saves what it finds to registries/, "readonly"
+   * proposes changes in a patch file instead, and "strict" resolves only
+   * registered elements and writes nothing
+   */
+  constructor(private mode: RegistryMode = "learn") {
     if (!fs.existsSync(this.registriesDir)) {
       fs.mkdirSync(this.registriesDir, { recursive: true });
     }
@@ -18,137 +111,938 @@ export class ElementResolver {
   async resolve(
     page: Page,
     elementName: string,
-    elementType?: string
+    elementType?: string,
+    options: ResolveOptions = {}
   ): Promise<Locator> {
-    const pageName = this.getPageNameFromUrl(page.url());
-    const registryPath = path.join(this.registriesDir, `${pageName}.json`);
-    const registryKey = `${elementName.toLowerCase().replace(/\s+/g, "_")}_${
-      elementType || "any"
-    }`;
-
-    // 1. Check Page-Specific Registry
-    const savedSelector = this.getSavedSelector(registryPath, registryKey);
-    if (savedSelector) {
-      const locator = await this.findInFrames(page, savedSelector);
-      if (locator) {
-        this.logger.info(`⚡ Registry Hit in frame: ${savedSelector}`);
-        return locator;
+    const locator = await this.find(page, elementName, elementType, options);
+    if (!locator) {
+      throw new Error(
+        options.frame
+          ? `CRITICAL: "${elementName}" not found in the "${options.frame}" frame.`
+          : `CRITICAL: "${elementName}" not found in main page or any iframes.`
+      );
+    }
+    return locator;
+  }
+
+  /**
+   * Like resolve, but returns null when no visible element matches
+   */
+  async find(
+    page: Page,
+    elementName: string,
+    elementType?: string,
+    options: ResolveOptions = {}
+  ): Promise<Locator | null> {
+    const ref = this.getRegistryRef(
+      page,
+      this.getRegistryKey(elementName, elementType, options),
+      elementName
+    );
+    const roots = await this.getSearchRoots(page, options);
+
+    // Inside a table row, a column header names the cell under it
+    if (options.row && !elementType) {
+      for (const { root } of roots) {
+        const cell = await this.domAnalyzer.cellInRow(
+          root as Locator,
+          elementName
+        );
+        if (cell) return cell;
+      }
+    }
+
+    // 1. Check Page-Specific Registry: each saved candidate in order, in
+    // the frame the selector came from
+    const stale: Candidate[] = [];
+    for (const candidate of this.getCandidates(ref)) {
+      const match = await this.findInFrames(
+        this.rootsForEntry(roots, candidate),
+        candidate.selector
+      );
+      if (match) {
+        this.logger.info(`⚡ Registry Hit in frame: ${candidate.selector}`);
+        this.updateEntry(page, ref, stale, candidate);
+        return match.locator;
       }
+      stale.push(candidate);
+    }
+
+    if (this.mode === "strict") {
+      if (stale.length === 0) throw this.notRegistered(ref);
+      this.updateEntry(page, ref, stale);
+      return null;
     }
 
     // 2. Try Semantic Visual Strategies across all frames
-    const visualLocator = await this.tryVisualInFrames(
-      page,
+    const visualMatch = await this.tryVisualInFrames(
+      roots,
       elementName,
-      elementType
+      elementType,
+      options
     );
-    if (visualLocator) {
-      const selector = await this.getSelectorFromLocator(visualLocator);
-      if (selector) this.saveSelector(registryPath, registryKey, selector);
-      return visualLocator;
+    if (visualMatch) {
+      await this.saveMatch(page, ref, stale, visualMatch);
+      return visualMatch.locator;
     }
 
     // 3. Deep DOM Analysis (Fuzzy Match) across all frames
     this.logger.info(`🧠 Deep scanning all iframes for "${elementName}"...`);
     const suggestions = await this.domAnalyzer.analyzeElementAcrossFrames(
       page,
-      elementName
+      elementName,
+      Array.from(new Set(roots.map(({ frame }) => frame)))
     );
-    const bestLocator = await this.findBestInFrames(page, suggestions);
+    const bestMatch = await this.findBestInFrames(roots, suggestions, options);
 
-    if (bestLocator) {
-      const selector = await this.getSelectorFromLocator(bestLocator);
-      if (selector) this.saveSelector(registryPath, registryKey, selector);
-      return bestLocator;
+    if (bestMatch) {
+      await this.saveMatch(page, ref, stale, bestMatch);
+      return bestMatch.locator;
     }
 
-    throw new Error(
-      `CRITICAL: "${elementName}" not found in main page or any iframes.`
-    );
+    this.updateEntry(page, ref, stale);
+    return null;
   }
 
-  private async findInFrames(
+  /**
+   * The heal events recorded for a scenario's browser context since the
+   * last call, or undefined if there were none
+   */
+  takeHealEvents(context: BrowserContext): HealEvent[] | undefined {
+    const events = this.heals.get(context);
+    this.heals.delete(context);
+    return events;
+  }
+
+  /**
+   * Resolve every element matching a name, e.g. for counting. Tries a saved
+   * selector, then buttons/links by accessible name, then class and
+   * data-test names derived from the description ("items in cart" matches
+   * .cart_item). Returns null when nothing matches.
+   */
+  async resolveAll(
     page: Page,
-    selector: string
+    elementName: string,
+    elementType?: string,
+    options: ResolveOptions = {}
   ): Promise<Locator | null> {
-    for (const frame of page.frames()) {
-      const loc = frame.locator(selector).first();
-      if (await loc.isVisible({ timeout: 500 }).catch(() => false)) return loc;
+    const ref = this.getRegistryRef(
+      page,
+      `${this.getRegistryKey(elementName, elementType, options)}_all`,
+      elementName
+    );
+    const roots = await this.getSearchRoots(page, options);
+
+    const stale: Candidate[] = [];
+    for (const candidate of this.getCandidates(ref)) {
+      for (const { root } of this.rootsForEntry(roots, candidate)) {
+        const loc = root.locator(candidate.selector);
+        if ((await loc.count().catch(() => 0)) > 0) {
+          this.updateEntry(page, ref, stale, candidate);
+          return loc;
+        }
+      }
+      stale.push(candidate);
     }
+
+    if (this.mode === "strict") {
+      if (stale.length === 0) throw this.notRegistered(ref);
+      this.updateEntry(page, ref, stale);
+      return null;
+    }
+
+    const selectors: string[] = [];
+    if (elementType && elementType !== "input" && elementType !== "dropdown") {
+      const name = elementName.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      selectors.push(`role=${elementType}[name=/${name}/i]`);
+    }
+    selectors.push(...this.getCollectionSelectors(elementName));
+
+    for (const selector of selectors) {
+      for (const { frame, root } of roots) {
+        const loc = root.locator(selector);
+        if ((await loc.count().catch(() => 0)) > 0) {
+          this.updateEntry(page, ref, stale, {
+            selector,
+            frame: this.getFrameRef(page, frame),
+          });
+          return loc;
+        }
+      }
+    }
+    this.updateEntry(page, ref, stale);
     return null;
   }
 
-  private async tryVisualInFrames(
+  /**
+   * Read a table or ARIA grid: the one whose caption, aria-label or heading
+   * matches tableName, or else the first visible one
+   */
+  async readTable(
     page: Page,
-    name: string,
-    type?: string
+    tableName?: string,
+    options: ResolveOptions = {}
+  ): Promise<TableData> {
+    const table = await this.findTable(page, tableName, options);
+    if (!table) {
+      throw new Error(
+        tableName
+          ? `CRITICAL: table "${tableName}" not found on the page.`
+          : "CRITICAL: no table found on the page."
+      );
+    }
+    return this.domAnalyzer.readTable(table);
+  }
+
+  private async findTable(
+    page: Page,
+    tableName: string | undefined,
+    options: ResolveOptions
   ): Promise<Locator | null> {
-    const regex = new RegExp(name, "i");
-    for (const frame of page.frames()) {
-      if (type === "button" || type === "link") {
-        const loc = frame.getByRole(type as any, { name: regex }).first();
-        if (await loc.isVisible({ timeout: 300 }).catch(() => false))
-          return loc;
+    const roots = await this.getSearchRoots(page, options);
+    if (tableName) {
+      const name = new RegExp(
+        tableName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+        "i"
+      );
+      for (const { root } of roots) {
+        for (const role of ["table", "grid", "treegrid"] as const) {
+          const table = root.getByRole(role, { name }).first();
+          if (await table.isVisible().catch(() => false)) return table;
+        }
+      }
+      // Otherwise the first table in the section headed by the name
+      try {
+        return await this.findTable(page, undefined, {
+          ...options,
+          section: tableName,
+        });
+      } catch {
+        return null;
       }
-      const labelLoc = frame.getByLabel(regex).first();
-      if (await labelLoc.isVisible({ timeout: 200 }).catch(() => false))
-        return labelLoc;
-
-      const phLoc = frame.getByPlaceholder(regex).first();
-      if (
-        await phLoc
-          .first()
-          .isVisible({ timeout: 200 })
-          .catch(() => false)
+    }
+
+    for (const { root } of roots) {
+      const table = root
+        .locator(TABLE_SELECTOR)
+        .filter({ visible: true })
+        .first();
+      if ((await table.count().catch(() => 0)) > 0) return table;
+    }
+    return null;
+  }
+
+  /**
+   * Class and data-test selectors for a plural description: "items in cart"
+   * gives cart_item, cart-item, item_cart, ... then the single words
+   */
+  private getCollectionSelectors(elementName: string): string[] {
+    const stopWords = ["the", "a", "an", "all", "in", "on", "of", "my", "to"];
+    const words = elementName
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !stopWords.includes(word))
+      .map((word) =>
+        word.endsWith("ies")
+          ? `${word.slice(0, -3)}y`
+          : word.endsWith("s") && !word.endsWith("ss")
+            ? word.slice(0, -1)
+            : word
+      );
+    if (words.length === 0) return [];
+
+    const names = new Set<string>();
+    for (const separator of ["_", "-"]) {
+      names.add([...words].reverse().join(separator));
+      names.add(words.join(separator));
+    }
+    words.forEach((word) => names.add(word));
+
+    return Array.from(names).flatMap((name) => [
+      `[data-test="${name}"]`,
+      `[data-testid="${name}"]`,
+      `[class~="${name}"]`,
+    ]);
+  }
+
+  private getRegistryKey(
+    elementName: string,
+    elementType: string | undefined,
+    options: ResolveOptions
+  ): string {
+    const slug = (text: string) => text.toLowerCase().replace(/\s+/g, "_");
+    let key = `${slug(elementName)}_${elementType || "any"}`;
+    if (options.frame) key += `_in_${slug(options.frame)}`;
+    if (options.section) key += `_in_${slug(options.section)}`;
+    if (options.row) {
+      key += `_in_row_${options.column ? `${slug(options.column)}_` : ""}${slug(
+        options.row
+      )}`;
+    }
+    if (options.ordinal !== undefined) {
+      key += `_${options.ordinal < 0 ? "last" : ordinalSuffix(options.ordinal)}`;
+    }
+    if (options.position) {
+      key += `_${options.position.relation.replace("-", "_")}_${slug(
+        options.position.anchor
+      )}`;
+    }
+    return key;
+  }
+
+  /**
+   * The frames to search, narrowed to the section or row container when
+   * the step names one
+   */
+  private async getSearchRoots(
+    page: Page,
+    options: ResolveOptions
+  ): Promise<SearchRoot[]> {
+    const frames = await this.getFrames(page, options.frame);
+    if (!options.section && !options.row) {
+      return frames.map((frame) => ({ frame, root: frame }));
+    }
+
+    const roots: SearchRoot[] = [];
+    for (const frame of frames) {
+      const container = await this.findContainer(frame, options);
+      if (container) roots.push({ frame, root: container });
+    }
+    if (roots.length === 0) {
+      throw new Error(
+        options.row && options.column
+          ? `CRITICAL: no row where "${options.column}" is "${options.row}" found on the page.`
+          : options.row
+            ? `CRITICAL: no row containing "${options.row}" found on the page.`
+            : `CRITICAL: section "${options.section}" not found on the page.`
+      );
+    }
+    return roots;
+  }
+
+  /**
+   * A table row containing the row text (or with it in the named column),
+   * or a section by (in order) an ARIA landmark or fieldset with that name,
+   * or the nearest ancestor of a matching heading that also contains
+   * controls
+   */
+  private async findContainer(
+    frame: Frame,
+    options: ResolveOptions
+  ): Promise<Locator | null> {
+    if (options.row && options.column) {
+      return this.findRowWhere(frame, options.column, options.row);
+    }
+    if (options.row) {
+      const row = frame
+        .locator("tr, [role='row']")
+        .filter({ hasText: options.row })
+        .first();
+      return (await row.count().catch(() => 0)) > 0 ? row : null;
+    }
+
+    const sectionName = options.section!;
+    const name = new RegExp(
+      sectionName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+      "i"
+    );
+    for (const role of LANDMARK_ROLES) {
+      const landmark = frame.getByRole(role, { name }).first();
+      if ((await landmark.count().catch(() => 0)) > 0) return landmark;
+    }
+
+    const lower = sectionName.toLowerCase();
+    const literal = lower.includes("'") ? `"${lower}"` : `'${lower}'`;
+    const headings = [
+      ...HEADING_TAGS.map((tag) => `self::${tag}`),
+      "@role='heading'",
+    ].join(" or ");
+    const heading = `//*[${headings}][contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), ${literal})]`;
+    const section = frame
+      .locator(
+        `xpath=(${heading})[1]/ancestor::*[.//input or .//button or .//select or .//textarea or .//a[@href]][1]`
       )
-        return phLoc;
+      .first();
+    return (await section.count().catch(() => 0)) > 0 ? section : null;
+  }
+
+  /**
+   * The first data row, in any visible table with the column, whose cell in
+   * that column is the value
+   */
+  private async findRowWhere(
+    frame: Frame,
+    column: string,
+    value: string
+  ): Promise<Locator | null> {
+    const tables = frame.locator(TABLE_SELECTOR);
+    const count = await tables.count().catch(() => 0);
+    for (let i = 0; i < count; i++) {
+      const table = tables.nth(i);
+      if (!(await table.isVisible().catch(() => false))) continue;
+      const { headers, rows } = await this.domAnalyzer.readTable(table);
+      const index = columnIndex(headers, column);
+      if (index === -1) continue;
+      const rowIndex = rows.findIndex(
+        (cells) => cells[index]?.toLowerCase() === value.trim().toLowerCase()
+      );
+      if (rowIndex !== -1) {
+        return table.locator(DATA_ROW_SELECTOR).nth(rowIndex);
+      }
     }
     return null;
   }
 
-  private async findBestInFrames(
+  /**
+   * All frames of the page (main frame first), or the iframe named by
+   * frameName. A name, title, id or aria-label equal to frameName wins over
+   * a partial match, which may also be on the URL; several matches fail.
+   */
+  private async getFrames(page: Page, frameName?: string): Promise<Frame[]> {
+    if (!frameName) return page.frames();
+
+    const needle = frameName.trim().toLowerCase();
+    const exact: Frame[] = [];
+    const partial: Frame[] = [];
+    const labels = new Map<Frame, string>();
+    for (const frame of page.frames()) {
+      if (frame === page.mainFrame()) continue;
+      const element = await frame.frameElement().catch(() => null);
+      const attributes: string[] = element
+        ? await element
+            .evaluate((el) =>
+              ["title", "id", "name", "aria-label"].map(
+                (attribute) => (el as Element).getAttribute(attribute) || ""
+              )
+            )
+            .catch(() => [])
+        : [];
+      const names = [frame.name(), ...attributes].filter(Boolean);
+      labels.set(frame, names[0] ?? frame.url());
+      if (names.some((value) => value.toLowerCase() === needle)) {
+        exact.push(frame);
+      } else if (
+        [...names, frame.url()].some((value) =>
+          value.toLowerCase().includes(needle)
+        )
+      ) {
+        partial.push(frame);
+      }
+    }
+    const frames = exact.length > 0 ? exact : partial;
+    if (frames.length === 0) {
+      throw new Error(`CRITICAL: frame "${frameName}" not found on the page.`);
+    }
+    if (frames.length > 1) {
+      const candidates = frames.map((frame) => `"${labels.get(frame)}"`);
+      throw new Error(
+        `CRITICAL: frame "${frameName}" matches ${frames.length} frames: ${candidates.join(", ")}. Use the exact frame name or title.`
+      );
+    }
+    return frames;
+  }
+
+  /**
+   * The search roots a saved selector applies to: those in the iframe it
+   * was saved from, or all of them for a plain selector
+   */
+  private rootsForEntry(
+    roots: SearchRoot[],
+    entry: { selector: string; frame?: FrameRef }
+  ): SearchRoot[] {
+    const ref = entry.frame;
+    if (!ref) return roots;
+    return roots.filter(({ frame }) =>
+      ref.name ? frame.name() === ref.name : frame.url().startsWith(ref.url!)
+    );
+  }
+
+  private getFrameRef(page: Page, frame: Frame): FrameRef | undefined {
+    if (frame === page.mainFrame()) return undefined;
+    if (frame.name()) return { name: frame.name() };
+    try {
+      const url = new URL(frame.url());
+      return { url: `${url.origin}${url.pathname}` };
+    } catch {
+      return { url: frame.url() };
+    }
+  }
+
+  private async saveMatch(
     page: Page,
-    suggestions: string[]
+    ref: RegistryRef,
+    stale: Candidate[],
+    match: FrameMatch
+  ): Promise<void> {
+    // Only selectors matching this element alone are returned, so ordinal
+    // and positional picks can be cached too
+    const selectors = await this.getSelectorsFromLocator(
+      match.locator,
+      match.frame
+    );
+    if (selectors.length === 0) {
+      this.updateEntry(page, ref, stale);
+      return;
+    }
+    const frame = this.getFrameRef(page, match.frame);
+    const [selector, ...fallbacks] = selectors;
+    this.updateEntry(
+      page,
+      ref,
+      stale,
+      { selector, frame },
+      fallbacks.map((fallback) => ({ selector: fallback, frame }))
+    );
+  }
+
+  private async findInFrames(
+    roots: SearchRoot[],
+    selector: string,
+    options: ResolveOptions = {}
+  ): Promise<FrameMatch | null> {
+    for (const { frame, root } of roots) {
+      const loc = await this.pick(root.locator(selector), root, options, 500);
+      if (loc) return { locator: loc, frame };
+    }
+    return null;
+  }
+
+  private async tryVisualInFrames(
+    roots: SearchRoot[],
+    name: string,
+    type: string | undefined,
+    options: ResolveOptions
+  ): Promise<FrameMatch | null> {
+    const regex = new RegExp(name, "i");
+    for (const { frame, root } of roots) {
+      const pick = (collection: Locator, timeout: number) =>
+        this.pick(collection, root, options, timeout);
+      const locator = /^rows?$/i.test(name.trim())
+        ? await pick(root.locator(DATA_ROW_SELECTOR), 300)
+        : await this.tryVisualInFrame(root, regex, type, pick);
+      if (locator) return { locator, frame };
+    }
+    return null;
+  }
+
+  private async tryVisualInFrame(
+    frame: Frame | Locator,
+    regex: RegExp,
+    type: string | undefined,
+    pick: (collection: Locator, timeout: number) => Promise<Locator | null>
   ): Promise<Locator | null> {
-    for (const selector of suggestions) {
-      const loc = await this.findInFrames(page, selector);
+    if (type === "button" || type === "link") {
+      const loc = await pick(
+        frame.getByRole(type as any, { name: regex }),
+        300
+      );
       if (loc) return loc;
     }
+    if (type === "checkbox" || type === "radio") {
+      const loc = await pick(frame.getByRole(type, { name: regex }), 300);
+      if (loc) return loc;
+      // Styled controls often hide the input; its label toggles it instead
+      const labelText = await pick(
+        frame.locator("label", { hasText: regex }),
+        200
+      );
+      if (labelText) return labelText;
+    }
+    const labelLoc = await pick(frame.getByLabel(regex), 200);
+    if (labelLoc) return labelLoc;
+
+    return await pick(frame.getByPlaceholder(regex), 200);
+  }
+
+  private async findBestInFrames(
+    roots: SearchRoot[],
+    suggestions: string[],
+    options: ResolveOptions
+  ): Promise<FrameMatch | null> {
+    for (const selector of suggestions) {
+      const match = await this.findInFrames(roots, selector, options);
+      if (match) return match;
+    }
     return null;
   }
 
-  private getPageNameFromUrl(urlString: string): string {
-    const url = new URL(urlString);
-    return (
-      url.pathname.replace(/^\/|\.html$/g, "").replace(/\//g, "_") || "home"
+  /**
+   * Choose the element a step means among all matches of a strategy: the
+   * first one if visible, the nth visible one ("2nd", "last"), or the one
+   * closest to an anchor ("next to 'Sauce Labs Backpack'")
+   */
+  private async pick(
+    collection: Locator,
+    root: Frame | Locator,
+    options: ResolveOptions,
+    timeout: number
+  ): Promise<Locator | null> {
+    if (options.position) {
+      return this.pickByPosition(collection, root, options);
+    }
+    if (options.ordinal === undefined) {
+      const first = collection.first();
+      return (await first.isVisible({ timeout }).catch(() => false))
+        ? first
+        : null;
+    }
+
+    const visible = collection.filter({ visible: true });
+    const loc =
+      options.ordinal < 0 ? visible.last() : visible.nth(options.ordinal - 1);
+    return (await loc.count().catch(() => 0)) > 0 ? loc : null;
+  }
+
+  /**
+   * Visible matches in the requested direction from the anchor text, closest
+   * first; the ordinal picks among them ("the 2nd button below 'Total'")
+   */
+  private async pickByPosition(
+    collection: Locator,
+    root: Frame | Locator,
+    options: ResolveOptions
+  ): Promise<Locator | null> {
+    const { relation, anchor } = options.position!;
+    const anchorBox = await root
+      .getByText(anchor)
+      .filter({ visible: true })
+      .first()
+      .boundingBox({ timeout: 1000 })
+      .catch(() => null);
+    if (!anchorBox) return null;
+
+    const candidates = collection.filter({ visible: true });
+    const count = Math.min(await candidates.count().catch(() => 0), 50);
+    const scored: Array<{ index: number; distance: number }> = [];
+    for (let index = 0; index < count; index++) {
+      const box = await candidates
+        .nth(index)
+        .boundingBox({ timeout: 1000 })
+        .catch(() => null);
+      const distance = box && this.relativeDistance(anchorBox, box, relation);
+      if (typeof distance === "number") scored.push({ index, distance });
+    }
+    scored.sort((a, b) => a.distance - b.distance);
+
+    const ordinal = options.ordinal ?? 1;
+    const match = scored[ordinal < 0 ? scored.length - 1 : ordinal - 1];
+    return match ? candidates.nth(match.index) : null;
+  }
+
+  /**
+   * Gap between two boxes, or null when the box is not on the requested
+   * side of the anchor (a few pixels of overlap are allowed)
+   */
+  private relativeDistance(
+    anchor: Box,
+    box: Box,
+    relation: Relation
+  ): number | null {
+    const tolerance = 5;
+    const onSide = {
+      near: true,
+      above: box.y + box.height <= anchor.y + tolerance,
+      below: box.y >= anchor.y + anchor.height - tolerance,
+      "right-of": box.x >= anchor.x + anchor.width - tolerance,
+      "left-of": box.x + box.width <= anchor.x + tolerance,
+    }[relation];
+    if (!onSide) return null;
+
+    const gapX = Math.max(
+      0,
+      box.x - (anchor.x + anchor.width),
+      anchor.x - (box.x + box.width)
+    );
+    const gapY = Math.max(
+      0,
+      box.y - (anchor.y + anchor.height),
+      anchor.y - (box.y + box.height)
     );
+    return Math.hypot(gapX, gapY);
   }
 
-  private async getSelectorFromLocator(
-    locator: Locator
-  ): Promise<string | null> {
-    return await locator
+  /**
+   * Selectors for an element, most stable first: test ids, a non-generated
+   * id, role and accessible name, label, attribute combinations and a short
+   * CSS path. Each is checked to match this element and nothing else in
+   * its frame; at most MAX_SYNTHESIZED are returned.
+   */
+  private async getSelectorsFromLocator(
+    locator: Locator,
+    frame: Frame
+  ): Promise<string[]> {
+    const proposals = await locator
       .evaluate((el) => {
-        if (el.id) return `#${el.id}`;
-        const dt =
-          el.getAttribute("data-testid") || el.getAttribute("data-test");
-        if (dt) return `[data-testid="${dt}"], [data-test="${dt}"]`;
-        return null;
+        const selectors: string[] = [];
+        const tag = el.tagName.toLowerCase();
+        const quote = (value: string) => JSON.stringify(value);
+        const text = (node: Element | null | undefined) =>
+          ((node as HTMLElement | null)?.innerText || node?.textContent || "")
+            .replace(/\s+/g, " ")
+            .trim();
+        // Generated ids and classes (ember123, css-1x2y3z, :r1:) change
+        // between builds
+        const stable = (value: string) =>
+          /^[A-Za-z][\w-]*$/.test(value) && !/\d{3,}|^css-|^sc-/.test(value);
+
+        for (const attribute of [
+          "data-testid",
+          "data-test",
+          "data-qa",
+          "data-cy",
+        ]) {
+          const value = el.getAttribute(attribute);
+          if (value) selectors.push(`[${attribute}=${quote(value)}]`);
+        }
+        if (el.id && stable(el.id)) selectors.push(`#${CSS.escape(el.id)}`);
+
+        // Role and accessible name, roughly as getByRole computes them
+        const type = (el.getAttribute("type") || "").toLowerCase();
+        const role =
+          el.getAttribute("role") ||
+          (tag === "button" ||
+          (tag === "input" && ["button", "submit", "reset"].includes(type))
+            ? "button"
+            : tag === "a" && el.hasAttribute("href")
+              ? "link"
+              : tag === "input" && (type === "checkbox" || type === "radio")
+                ? type
+                : tag === "select"
+                  ? "combobox"
+                  : tag === "textarea" ||
+                      (tag === "input" &&
+                        ["", "text", "email", "search", "tel", "url"].includes(
+                          type
+                        ))
+                    ? "textbox"
+                    : /^h[1-6]$/.test(tag)
+                      ? "heading"
+                      : "");
+        const labels = (el as HTMLInputElement).labels;
+        const labelText = labels && labels.length > 0 ? text(labels[0]) : "";
+        const labelledBy = (el.getAttribute("aria-labelledby") || "")
+          .split(/\s+/)
+          .map((id) => text(document.getElementById(id)))
+          .join(" ")
+          .trim();
+        const name =
+          el.getAttribute("aria-label") ||
+          labelledBy ||
+          labelText ||
+          (["button", "link", "heading", "checkbox", "radio"].includes(role)
+            ? text(el)
+            : "") ||
+          (type === "submit" || type === "button"
+            ? (el as HTMLInputElement).value
+            : "") ||
+          el.getAttribute("title") ||
+          el.getAttribute("placeholder") ||
+          "";
+        // Public role selector syntax; the "s" flag matches the whole name,
+        // which already includes label text
+        if (role && name && name.length <= 80) {
+          selectors.push(`role=${role}[name=${quote(name)}s]`);
+        }
+
+        // Attributes alone, then in pairs
+        const attributes = [
+          "name",
+          "placeholder",
+          "aria-label",
+          "title",
+          "alt",
+          "href",
+          "type",
+        ]
+          .map((attribute) => [attribute, el.getAttribute(attribute)])
+          .filter((pair): pair is [string, string] => !!pair[1])
+          .map(([attribute, value]) => `[${attribute}=${quote(value)}]`);
+        attributes.forEach((attribute) => selectors.push(`${tag}${attribute}`));
+        attributes.forEach((first, i) =>
+          attributes
+            .slice(i + 1)
+            .forEach((second) => selectors.push(`${tag}${first}${second}`))
+        );
+
+        // Shortest CSS path (up to 5 levels) that is unique in its document
+        // or shadow root, anchored at the nearest ancestor with a stable id
+        const root = el.getRootNode() as Document | ShadowRoot;
+        const segment = (node: Element) => {
+          if (node.id && stable(node.id)) return `#${CSS.escape(node.id)}`;
+          let part = node.tagName.toLowerCase();
+          const classes = Array.from(node.classList).filter(stable);
+          if (classes.length > 0) {
+            part += classes
+              .slice(0, 2)
+              .map((c) => `.${CSS.escape(c)}`)
+              .join("");
+          }
+          const siblings = node.parentElement
+            ? Array.from(node.parentElement.children).filter(
+                (sibling) => sibling.tagName === node.tagName
+              )
+            : [];
+          if (siblings.length > 1) {
+            part += `:nth-of-type(${siblings.indexOf(node) + 1})`;
+          }
+          return part;
+        };
+        const path: string[] = [];
+        for (
+          let node: Element | null = el;
+          node && path.length < 5;
+          node = node.parentElement
+        ) {
+          path.unshift(segment(node));
+          const selector = path.join(" > ");
+          if (root.querySelectorAll(selector).length === 1) {
+            selectors.push(selector);
+            break;
+          }
+          if (path[0].startsWith("#")) break;
+        }
+
+        return Array.from(new Set(selectors));
       })
+      .catch(() => [] as string[]);
+
+    const handle = await locator
+      .elementHandle({ timeout: 1000 })
       .catch(() => null);
+    if (!handle) return [];
+    const unique: string[] = [];
+    for (const selector of proposals) {
+      if (unique.length >= MAX_SYNTHESIZED) break;
+      const matches = frame.locator(selector);
+      if ((await matches.count().catch(() => 0)) !== 1) continue;
+      const same = await matches
+        .evaluate((el, target) => el === target, handle)
+        .catch(() => false);
+      if (same) unique.push(selector);
+    }
+    await handle.dispose();
+    return unique;
+  }
+
+  private getRegistryRef(
+    page: Page,
+    key: string,
+    element: string
+  ): RegistryRef {
+    // Shared components (header, nav) keep one registry for every page
+    const name =
+      pageIdentity.sharedRegistry(key) || pageIdentity.pageName(page.url());
+    return {
+      name,
+      path: path.join(this.registriesDir, `${name}.json`),
+      key,
+      element,
+    };
+  }
+
+  private notRegistered(ref: RegistryRef): Error {
+    return new Error(
+      `CRITICAL: "${ref.element}" is not in registries/${ref.name}.json (key "${ref.key}") and the registry mode is strict.`
+    );
   }
 
-  private getSavedSelector(filePath: string, key: string): string | null {
-    if (!fs.existsSync(filePath)) return null;
-    const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
-    return data[key] || null;
+  private getCandidates(ref: RegistryRef): Candidate[] {
+    return this.toCandidates(
+      registryStore.get<RegistryEntry>(ref.path, ref.key)
+    );
   }
 
-  private saveSelector(filePath: string, key: string, selector: string) {
-    const data = fs.existsSync(filePath)
-      ? JSON.parse(fs.readFileSync(filePath, "utf8"))
-      : {};
-    data[key] = selector;
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+  private toCandidates(entry: RegistryEntry | undefined): Candidate[] {
+    if (!entry) return [];
+    if (typeof entry === "string") {
+      return [{ selector: entry, hits: 0, misses: 0 }];
+    }
+    // Copies, so counts only change in the store through updateEntry
+    if ("candidates" in entry) {
+      return entry.candidates.map((candidate) => ({ ...candidate }));
+    }
+    return [
+      { selector: entry.selector, frame: entry.frame, hits: 0, misses: 0 },
+    ];
+  }
+
+  /**
+   * Record a lookup: a miss for each saved candidate that no longer matched
+   * and a hit for the selector that did, which moves to the front. A hit
+   * after misses means the element healed, which is logged and kept as a
+   * heal event for the scenario. In readonly mode changed candidate lists
+   * go to the registry patch instead, and strict mode writes nothing.
+   */
+  private updateEntry(
+    page: Page,
+    ref: RegistryRef,
+    stale: Candidate[],
+    found?: { selector: string; frame?: FrameRef },
+    fallbacks: Array<{ selector: string; frame?: FrameRef }> = []
+  ): void {
+    if (stale.length === 0 && !found) return;
+    // Readonly runs build on what earlier steps already proposed
+    const proposed =
+      this.mode === "readonly"
+        ? proposedRegistryEntry(ref.name, ref.key)
+        : undefined;
+    let candidates = this.toCandidates(
+      (proposed as RegistryEntry | undefined) ||
+        registryStore.get<RegistryEntry>(ref.path, ref.key)
+    );
+    const signature = (list: Candidate[]) =>
+      JSON.stringify(list.map(({ selector, frame }) => [selector, frame]));
+    const original = signature(candidates);
+    const same = (a: Candidate, b: { selector: string; frame?: FrameRef }) =>
+      a.selector === b.selector &&
+      a.frame?.name === b.frame?.name &&
+      a.frame?.url === b.frame?.url;
+
+    for (const miss of stale) {
+      const candidate = candidates.find((c) => same(c, miss));
+      if (candidate) candidate.misses++;
+    }
+
+    if (found) {
+      const known = candidates.find((c) => same(c, found));
+      const hit: Candidate = known || { ...found, hits: 0, misses: 0 };
+      hit.hits++;
+      hit.lastVerified = new Date().toISOString();
+      // New fallbacks go before older candidates, which drop off first
+      const added: Candidate[] = fallbacks
+        .filter((fallback) => !candidates.some((c) => same(c, fallback)))
+        .map((fallback) => ({ ...fallback, hits: 0, misses: 0 }));
+      candidates = [
+        hit,
+        ...added,
+        ...candidates.filter((c) => c !== hit),
+      ].slice(0, MAX_CANDIDATES);
+
+      if (stale.length > 0) {
+        const event: HealEvent = {
+          registry: ref.name,
+          key: ref.key,
+          element: ref.element,
+          from: stale[0].selector,
+          to: found.selector,
+          strategy: known ? "fallback" : "rediscovered",
+          timestamp: new Date(),
+        };
+        this.logger.warn(
+          `🩹 Healed "${ref.key}" in ${ref.name}.json: ${event.from} → ${event.to} (${event.strategy})`
+        );
+        const context = page.context();
+        this.heals.set(context, [...(this.heals.get(context) || []), event]);
+      }
+    }
+
+    if (this.mode === "learn") {
+      registryStore.set(ref.path, ref.key, { candidates });
+    } else if (
+      this.mode === "readonly" &&
+      (proposed || signature(candidates) !== original)
+    ) {
+      proposeRegistryEntry(ref.name, ref.key, { candidates });
+    }
   }
 }
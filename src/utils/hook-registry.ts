@@ -0,0 +1,267 @@
+import {
+  Feature,
+  HookResult,
+  HookType,
+  SerializedError,
+  Step,
+  StepResult,
+  TestContext,
+} from "../types/feature-types";
+import Logger from "./logger";
+import { parseTagExpression, TagExpression } from "./tag-expression";
+
+export interface HookOptions {
+  // Tag expression limiting the hook to matching features/scenarios
+  tags?: string;
+  // Shown in logs and the report
+  name?: string;
+}
+
+// How a scenario ended, as passed to After hooks
+export interface ScenarioOutcome {
+  status: string;
+  error?: Error | SerializedError;
+}
+
+type RunHookFunction = () => Promise<void> | void;
+type FeatureHookFunction = (feature: Feature) => Promise<void> | void;
+type ScenarioHookFunction = (
+  this: TestContext,
+  result?: ScenarioOutcome
+) => Promise<void> | void;
+type StepHookFunction = (
+  this: TestContext,
+  step: Step,
+  result?: StepResult
+) => Promise<void> | void;
+type AnyHookFunction =
+  | RunHookFunction
+  | FeatureHookFunction
+  | ScenarioHookFunction
+  | StepHookFunction;
+
+type HookArgument = Feature | Step | StepResult | ScenarioOutcome;
+
+// Hooks of every type are stored alike; run() passes each type's arguments
+type HookFunction = (
+  this: TestContext | undefined,
+  ...args: HookArgument[]
+) => Promise<void> | void;
+
+interface HookDefinition {
+  type: HookType;
+  fn: HookFunction;
+  name?: string;
+  tagFilter?: TagExpression;
+}
+
+export class HookRegistry {
+  private static instance: HookRegistry;
+  private hooks: HookDefinition[] = [];
+  private logger = new Logger();
+
+  private constructor() {}
+
+  static getInstance(): HookRegistry {
+    if (!HookRegistry.instance) {
+      HookRegistry.instance = new HookRegistry();
+    }
+    return HookRegistry.instance;
+  }
+
+  /**
+   * Register a hook. Tag expressions are validated at registration time.
+   */
+  register(type: HookType, options: HookOptions, fn: AnyHookFunction): void {
+    this.hooks.push({
+      type,
+      fn: fn as HookFunction,
+      name: options.name,
+      tagFilter: options.tags ? parseTagExpression(options.tags) : undefined,
+    });
+  }
+
+  /**
+   * Run all hooks of a type whose tag filter matches. Errors are captured in
+   * the returned results instead of being thrown, so every hook runs.
+   * "After" style hooks run in reverse registration order.
+   */
+  async run(
+    type: HookType,
+    options: {
+      tags?: string[];
+      thisArg?: TestContext;
+      args?: HookArgument[];
+      step?: Step;
+    }
+  ): Promise<HookResult[]> {
+    const hooks = this.hooks.filter(
+      (hook) =>
+        hook.type === type &&
+        (!hook.tagFilter || hook.tagFilter.evaluate(options.tags || []))
+    );
+    if (type.startsWith("After")) hooks.reverse();
+
+    const results: HookResult[] = [];
+    for (const hook of hooks) {
+      const startTime = Date.now();
+      try {
+        await hook.fn.apply(options.thisArg, options.args || []);
+        results.push({
+          type,
+          name: hook.name,
+          status: "passed",
+          duration: Date.now() - startTime,
+          step: options.step,
+        });
+      } catch (error) {
+        const err = error as Error;
+        this.logger.error(
+          `${type} hook${hook.name ? ` "${hook.name}"` : ""} failed: ${
+            err.message
+          }`
+        );
+        results.push({
+          type,
+          name: hook.name,
+          status: "failed",
+          duration: Date.now() - startTime,
+          error: { name: err.name, message: err.message, stack: err.stack },
+          step: options.step,
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Remove all registered hooks (mainly useful for tooling)
+   */
+  clear(): void {
+    this.hooks = [];
+  }
+}
+
+// Export singleton instance
+export const hookRegistry = HookRegistry.getInstance();
+
+/**
+ * Normalize the optional first argument: a tag expression or HookOptions
+ */
+function register(
+  type: HookType,
+  optionsOrFn: string | HookOptions | AnyHookFunction,
+  fn?: AnyHookFunction
+): void {
+  if (typeof optionsOrFn === "function") {
+    hookRegistry.register(type, {}, optionsOrFn);
+  } else {
+    const options =
+      typeof optionsOrFn === "string" ? { tags: optionsOrFn } : optionsOrFn;
+    hookRegistry.register(type, options, fn!);
+  }
+}
+
+/**
+ * Run once before any feature
+ */
+export function BeforeAll(fn: RunHookFunction): void {
+  register("BeforeAll", fn);
+}
+
+/**
+ * Run once after all features, even when the run failed
+ */
+export function AfterAll(fn: RunHookFunction): void {
+  register("AfterAll", fn);
+}
+
+/**
+ * Run before each feature (tags are matched against feature tags)
+ */
+export function BeforeFeature(fn: FeatureHookFunction): void;
+export function BeforeFeature(
+  options: string | HookOptions,
+  fn: FeatureHookFunction
+): void;
+export function BeforeFeature(
+  optionsOrFn: string | HookOptions | FeatureHookFunction,
+  fn?: FeatureHookFunction
+) {
+  register("BeforeFeature", optionsOrFn, fn);
+}
+
+/**
+ * Run after each feature
+ */
+export function AfterFeature(fn: FeatureHookFunction): void;
+export function AfterFeature(
+  options: string | HookOptions,
+  fn: FeatureHookFunction
+): void;
+export function AfterFeature(
+  optionsOrFn: string | HookOptions | FeatureHookFunction,
+  fn?: FeatureHookFunction
+) {
+  register("AfterFeature", optionsOrFn, fn);
+}
+
+/**
+ * Run before each scenario, after its page is created
+ */
+export function Before(fn: ScenarioHookFunction): void;
+export function Before(
+  options: string | HookOptions,
+  fn: ScenarioHookFunction
+): void;
+export function Before(
+  optionsOrFn: string | HookOptions | ScenarioHookFunction,
+  fn?: ScenarioHookFunction
+) {
+  register("Before", optionsOrFn, fn);
+}
+
+/**
+ * Run after each scenario, even when it failed
+ */
+export function After(fn: ScenarioHookFunction): void;
+export function After(
+  options: string | HookOptions,
+  fn: ScenarioHookFunction
+): void;
+export function After(
+  optionsOrFn: string | HookOptions | ScenarioHookFunction,
+  fn?: ScenarioHookFunction
+) {
+  register("After", optionsOrFn, fn);
+}
+
+/**
+ * Run before each step
+ */
+export function BeforeStep(fn: StepHookFunction): void;
+export function BeforeStep(
+  options: string | HookOptions,
+  fn: StepHookFunction
+): void;
+export function BeforeStep(
+  optionsOrFn: string | HookOptions | StepHookFunction,
+  fn?: StepHookFunction
+) {
+  register("BeforeStep", optionsOrFn, fn);
+}
+
+/**
+ * Run after each step, whether it passed or failed
+ */
+export function AfterStep(fn: StepHookFunction): void;
+export function AfterStep(
+  options: string | HookOptions,
+  fn: StepHookFunction
+): void;
+export function AfterStep(
+  optionsOrFn: string | HookOptions | StepHookFunction,
+  fn?: StepHookFunction
+) {
+  register("AfterStep", optionsOrFn, fn);
+}
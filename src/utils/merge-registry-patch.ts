@@ -0,0 +1,28 @@
+import * as fs from "fs";
+import * as path from "path";
+import Logger from "./logger";
+import { mergeRegistryPatch, REGISTRY_PATCH_FILE } from "./registry-patch";
+
+// Review (--dry-run) or merge the registry changes proposed by a run in
+// readonly mode
+function mergePatch() {
+  const logger = new Logger();
+  const dryRun = process.argv.includes("--dry-run");
+
+  if (!fs.existsSync(REGISTRY_PATCH_FILE)) {
+    logger.info(`No registry patch to merge (${REGISTRY_PATCH_FILE})`);
+    return;
+  }
+
+  const changes = mergeRegistryPatch(path.join(process.cwd(), "registries"), {
+    dryRun,
+  });
+  changes.forEach((change) => logger.info(`  ${change}`));
+  logger.info(
+    dryRun
+      ? `${changes.length} registry change(s) to review in ${REGISTRY_PATCH_FILE}`
+      : `Merged ${changes.length} registry change(s) into registries/`
+  );
+}
+
+mergePatch();
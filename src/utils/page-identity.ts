@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as path from "path";
+import Logger from "./logger";
+
+/**
+ * src/config/registry-routes.json: how URLs map to registry files
+ */
+export interface RegistryRoutesConfig {
+  // Route pattern → registry name, first match wins: "/orders/:id",
+  // "/admin/*"
+  routes?: { [pattern: string]: string };
+  // Use the "#/..." (or "#!/...") part of hash-routed URLs as the path
+  hashRouting?: boolean;
+  // Query parameters that make a different page:
+  // "/account?tab=billing" → "account_tab_billing"
+  queryParams?: string[];
+  // Shared registry name → registry key patterns stored there instead of
+  // in each page's registry, e.g. { "common": ["*_in_header"] }
+  shared?: { [registry: string]: string[] };
+}
+
+interface Route {
+  pattern: RegExp;
+  name: string;
+}
+
+/**
+ * Decides which registry file an element belongs to: the page's, named by
+ * its route, or a shared one for components that appear on every page
+ */
+export class PageIdentity {
+  private static instance: PageIdentity;
+  private logger = new Logger();
+  private config: RegistryRoutesConfig = {};
+  private routes: Route[] = [];
+  private shared: Array<{ registry: string; pattern: RegExp }> = [];
+
+  private constructor() {
+    this.configure(
+      this.loadConfig(
+        path.join(process.cwd(), "src", "config", "registry-routes.json")
+      )
+    );
+  }
+
+  static getInstance(): PageIdentity {
+    if (!PageIdentity.instance) {
+      PageIdentity.instance = new PageIdentity();
+    }
+    return PageIdentity.instance;
+  }
+
+  /**
+   * Replace the routes config loaded from src/config/registry-routes.json
+   */
+  configure(config: RegistryRoutesConfig): void {
+    this.config = config;
+    this.routes = Object.entries(config.routes || {}).map(([route, name]) => ({
+      pattern: this.routePattern(route),
+      name,
+    }));
+    this.shared = Object.entries(config.shared || {}).flatMap(
+      ([registry, keys]) =>
+        keys.map((key) => ({ registry, pattern: this.globPattern(key) }))
+    );
+  }
+
+  /**
+   * Registry name for a URL: the first matching route's name, otherwise
+   * the path with "/" as "_" ("home" for "/"), plus any configured query
+   * parameters
+   */
+  pageName(urlString: string): string {
+    const url = new URL(urlString);
+    let pathname = url.pathname;
+    let query = url.searchParams;
+
+    const hashRoute = url.hash.match(/^#!?(\/[^?]*)(?:\?(.*))?$/);
+    if (this.config.hashRouting !== false && hashRoute) {
+      pathname = hashRoute[1];
+      query = new URLSearchParams(hashRoute[2] || url.search);
+    }
+
+    const route = this.routes.find(({ pattern }) => pattern.test(pathname));
+    const name =
+      route?.name ||
+      pathname.replace(/^\/|\.html$/g, "").replace(/\//g, "_") ||
+      "home";
+
+    const suffix = (this.config.queryParams || [])
+      .filter((param) => query.get(param))
+      .map(
+        (param) =>
+          `_${param}_${query
+            .get(param)!
+            .replace(/[^\w-]+/g, "_")
+            .toLowerCase()}`
+      )
+      .join("");
+    return `${name}${suffix}`;
+  }
+
+  /**
+   * The shared registry a registry key is kept in, if any
+   */
+  sharedRegistry(key: string): string | undefined {
+    return this.shared.find(({ pattern }) => pattern.test(key))?.registry;
+  }
+
+  private loadConfig(filePath: string): RegistryRoutesConfig {
+    if (!fs.existsSync(filePath)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+      this.logger.warn(
+        `Could not parse ${filePath} (${(error as Error).message}); registries are named by URL path`
+      );
+      return {};
+    }
+  }
+
+  // "/orders/:id" matches "/orders/123" and "/orders/123/"; "*" matches
+  // anything, including "/"
+  private routePattern(route: string): RegExp {
+    const source = route
+      .replace(/\/$/, "")
+      .split(/(:\w+|\*)/)
+      .map((part) =>
+        part === "*"
+          ? ".*"
+          : part.startsWith(":")
+            ? "[^/]+"
+            : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      )
+      .join("");
+    return new RegExp(`^${source}/?$`, "i");
+  }
+
+  // "*_in_header" style patterns for registry keys
+  private globPattern(glob: string): RegExp {
+    const source = glob
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${source}$`, "i");
+  }
+}
+
+// Export singleton instance
+export const pageIdentity = PageIdentity.getInstance();
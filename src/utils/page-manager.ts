@@ -0,0 +1,198 @@
+import { BrowserContext, Dialog, Page } from "playwright";
+import Logger from "./logger";
+
+export interface DialogRecord {
+  type: string;
+  message: string;
+  action: "accepted" | "dismissed";
+}
+
+/**
+ * Tracks the tabs and dialogs of one scenario's browser context.
+ * Tabs opened by the page (target=_blank links, OAuth popups) are picked up
+ * automatically; the active tab changes through the switch/close methods
+ * and is reported to onActivate so TestContext.page follows it.
+ */
+export class PageManager {
+  private logger = new Logger();
+  private pages: Page[] = [];
+  private active: Page;
+  // Response to the next dialog, set by "accept/dismiss the dialog" steps
+  private nextDialog?: { accept: boolean; promptText?: string };
+  private dialogs: DialogRecord[] = [];
+  // Titles are fetched asynchronously, so findPage reads the last known one
+  private titles = new Map<Page, string>();
+
+  constructor(
+    context: BrowserContext,
+    page: Page,
+    private timeout: number,
+    private onActivate: (page: Page) => void
+  ) {
+    this.active = page;
+    this.track(page);
+    context.on("page", (newPage) => {
+      this.logger.info(`New tab opened: ${newPage.url()}`);
+      this.track(newPage);
+    });
+  }
+
+  get activePage(): Page {
+    return this.active;
+  }
+
+  /**
+   * Switch to the most recently opened tab, waiting for it to open if the
+   * active tab is already the newest
+   */
+  async switchToNewest(): Promise<Page> {
+    const page = await this.waitForPage(() => {
+      const newest = this.pages[this.pages.length - 1];
+      return newest !== this.active ? newest : undefined;
+    }, "a new tab to open");
+    return this.activate(page);
+  }
+
+  /**
+   * Switch to a tab by position (1-based) or by title or URL fragment
+   */
+  async switchTo(target: string | number): Promise<Page> {
+    const page = await this.waitForPage(
+      () => this.findPage(target),
+      typeof target === "number"
+        ? `tab ${target} to open`
+        : `a tab with title or URL matching "${target}"`
+    );
+    return this.activate(page);
+  }
+
+  /**
+   * Close a tab (the active one by default) and switch to the tab that was
+   * opened before it
+   */
+  async close(target?: string | number): Promise<Page> {
+    const page =
+      target === undefined ? this.active : this.findPage(target) || null;
+    if (!page) {
+      throw new Error(`No open tab matches "${target}"`);
+    }
+    if (this.pages.length === 1) {
+      throw new Error("Cannot close the only open tab");
+    }
+
+    // The close handler in track() switches tabs if needed
+    await page.close();
+    return this.active;
+  }
+
+  /**
+   * Set how the next dialog (alert, confirm, prompt) is answered
+   */
+  respondToNextDialog(accept: boolean, promptText?: string): void {
+    this.nextDialog = { accept, promptText };
+  }
+
+  /**
+   * The most recent dialog, waiting for one to appear if none has yet
+   */
+  async lastDialog(): Promise<DialogRecord> {
+    const deadline = Date.now() + this.timeout;
+    while (this.dialogs.length === 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    const dialog = this.dialogs[this.dialogs.length - 1];
+    if (!dialog) {
+      throw new Error(`No dialog appeared within ${this.timeout}ms`);
+    }
+    return dialog;
+  }
+
+  private track(page: Page): void {
+    if (this.pages.includes(page)) return;
+    this.pages.push(page);
+    page.setDefaultTimeout(this.timeout);
+    page.on("dialog", (dialog) => this.handleDialog(dialog));
+    page.on("close", () => {
+      const index = this.pages.indexOf(page);
+      this.pages = this.pages.filter((open) => open !== page);
+      // Closing the active tab, or a popup closing itself after OAuth,
+      // hands control back to the tab opened before it
+      if (page === this.active && this.pages.length > 0) {
+        this.activate(this.pages[Math.max(index - 1, 0)]);
+      }
+    });
+  }
+
+  private activate(page: Page): Page {
+    if (page !== this.active) {
+      this.logger.info(`Switched to tab: ${page.url()}`);
+    }
+    this.active = page;
+    this.onActivate(page);
+    return page;
+  }
+
+  private findPage(target: string | number): Page | undefined {
+    if (typeof target === "number") return this.pages[target - 1];
+    const needle = target.toLowerCase();
+    return this.pages.find(
+      (page) =>
+        page.url().toLowerCase().includes(needle) ||
+        this.titles.get(page)?.toLowerCase().includes(needle)
+    );
+  }
+
+  private async waitForPage(
+    find: () => Page | undefined,
+    description: string
+  ): Promise<Page> {
+    const deadline = Date.now() + this.timeout;
+    while (true) {
+      await Promise.all(
+        this.pages.map(async (page) => {
+          const title = await page.title().catch(() => undefined);
+          if (title !== undefined) this.titles.set(page, title);
+        })
+      );
+      const page = find();
+      if (page) {
+        await page.waitForLoadState("domcontentloaded").catch(() => {});
+        await page.bringToFront();
+        return page;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out after ${this.timeout}ms waiting for ${description}`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+  }
+
+  private async handleDialog(dialog: Dialog): Promise<void> {
+    const response = this.nextDialog;
+    this.nextDialog = undefined;
+    // Without a preceding accept/dismiss step dialogs are dismissed, as
+    // Playwright does by default
+    const accept = response?.accept ?? false;
+    this.dialogs.push({
+      type: dialog.type(),
+      message: dialog.message(),
+      action: accept ? "accepted" : "dismissed",
+    });
+    this.logger.info(
+      `${dialog.type()} dialog "${dialog.message()}" ${
+        accept ? "accepted" : "dismissed"
+      }`
+    );
+    try {
+      if (accept) {
+        await dialog.accept(response?.promptText);
+      } else {
+        await dialog.dismiss();
+      }
+    } catch (error) {
+      this.logger.warn(`Could not answer dialog: ${error}`);
+    }
+  }
+}
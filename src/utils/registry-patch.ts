@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as path from "path";
+import { readJsonFile, registryStore, writeJsonFile } from "./registry-store";
+
+// Registry changes proposed by a run in readonly mode, for review before
+// they are merged into registries/ (see merge-registry-patch.ts)
+export const REGISTRY_PATCH_FILE = path.join(
+  process.cwd(),
+  "registries.patch.json"
+);
+
+interface PatchEntry {
+  candidates: Array<{ selector: string }>;
+}
+
+// Proposed registry entries by registry (page) name and key
+export type RegistryPatch = {
+  [registry: string]: { [key: string]: PatchEntry };
+};
+
+export function readRegistryPatch(
+  patchPath: string = REGISTRY_PATCH_FILE
+): RegistryPatch {
+  return readJsonFile(patchPath) as RegistryPatch;
+}
+
+/**
+ * The entry proposed for a registry key so far in this run or earlier ones
+ */
+export function proposedRegistryEntry(
+  registry: string,
+  key: string,
+  patchPath: string = REGISTRY_PATCH_FILE
+): PatchEntry | undefined {
+  return registryStore.get<RegistryPatch[string]>(patchPath, registry)?.[key];
+}
+
+/**
+ * Add (or replace) the proposed entry for a registry key in the patch. Like
+ * registry changes, it is cached and merged into the file on flush.
+ */
+export function proposeRegistryEntry(
+  registry: string,
+  key: string,
+  entry: PatchEntry,
+  patchPath: string = REGISTRY_PATCH_FILE
+): void {
+  const entries = registryStore.get<RegistryPatch[string]>(patchPath, registry);
+  registryStore.set(patchPath, registry, { ...entries, [key]: entry });
+}
+
+// The selector an existing registry entry of any format tries first
+function firstSelector(entry: unknown): string | undefined {
+  if (typeof entry === "string") return entry;
+  if (typeof entry !== "object" || entry === null) return undefined;
+  const { candidates, selector } = entry as {
+    candidates?: PatchEntry["candidates"];
+    selector?: string;
+  };
+  return candidates?.[0]?.selector ?? selector;
+}
+
+/**
+ * Apply a patch to the registry files and delete it. Returns one line per
+ * changed key; with dryRun nothing is written.
+ */
+export function mergeRegistryPatch(
+  registriesDir: string,
+  options: { dryRun?: boolean; patchPath?: string } = {}
+): string[] {
+  const patchPath = options.patchPath || REGISTRY_PATCH_FILE;
+  const patch = readRegistryPatch(patchPath);
+  const changes: string[] = [];
+
+  for (const [registry, entries] of Object.entries(patch)) {
+    const filePath = path.join(registriesDir, `${registry}.json`);
+    const data: { [key: string]: unknown } = readJsonFile(filePath);
+
+    for (const [key, entry] of Object.entries(entries)) {
+      const before = firstSelector(data[key]);
+      const after = entry.candidates[0]?.selector;
+      changes.push(
+        before
+          ? `${registry}.json "${key}": ${before} → ${after}`
+          : `${registry}.json "${key}": new, ${after}`
+      );
+      data[key] = entry;
+    }
+
+    if (!options.dryRun) writeJsonFile(filePath, data);
+  }
+
+  if (!options.dryRun && fs.existsSync(patchPath)) fs.unlinkSync(patchPath);
+  return changes;
+}
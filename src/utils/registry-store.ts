@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import * as path from "path";
+import Logger from "./logger";
+
+type RegistryData = { [key: string]: unknown };
+
+interface CachedRegistry {
+  data: RegistryData;
+  // Modification time of the file when it was last read or written
+  mtimeMs: number;
+  // Keys changed in memory since the last flush
+  dirty: Set<string>;
+}
+
+// How long changes collect in memory before they are written
+const FLUSH_DELAY = 1000;
+
+const logger = new Logger();
+
+/**
+ * Read a JSON file, treating a missing file as empty. A file that does not
+ * parse (e.g. truncated by an interrupted write) is moved aside to
+ * "<name>.corrupt-<time>" and treated as empty, so the run can go on.
+ */
+export function readJsonFile(filePath: string): RegistryData {
+  if (!fs.existsSync(filePath)) return {};
+  const content = fs.readFileSync(filePath, "utf8");
+  try {
+    return content.trim() === "" ? {} : JSON.parse(content);
+  } catch (error) {
+    const backup = `${filePath}.corrupt-${Date.now()}`;
+    logger.warn(
+      `Could not parse ${filePath} (${(error as Error).message}); moved it to ${backup} and starting from an empty file`
+    );
+    try {
+      fs.renameSync(filePath, backup);
+    } catch {
+      // Another process already moved or replaced it
+    }
+    return {};
+  }
+}
+
+/**
+ * Write a JSON file atomically: to a temporary file in the same directory,
+ * then renamed over the target, so readers never see a partial file
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.${process.pid}-${Math.random()
+    .toString(36)
+    .slice(2)}.tmp`;
+  try {
+    fs.writeFileSync(temp, JSON.stringify(data, null, 2));
+    fs.renameSync(temp, filePath);
+  } catch (error) {
+    fs.rmSync(temp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * In-memory cache of the registry files shared by every scenario of the
+ * run. Changes are kept per key and flushed shortly after they are made
+ * (and on flush()): the file is re-read and only the changed keys are
+ * written over it, so parallel scenarios and other processes writing the
+ * same registry do not lose each other's keys.
+ */
+export class RegistryStore {
+  private static instance: RegistryStore;
+  private registries = new Map<string, CachedRegistry>();
+  private flushTimer?: NodeJS.Timeout;
+
+  private constructor() {}
+
+  static getInstance(): RegistryStore {
+    if (!RegistryStore.instance) {
+      RegistryStore.instance = new RegistryStore();
+    }
+    return RegistryStore.instance;
+  }
+
+  /**
+   * The registry's entries: the file as last read, reloaded if another
+   * process changed it since, with unflushed changes from this one on top
+   */
+  read(filePath: string): RegistryData {
+    return this.load(filePath).data;
+  }
+
+  get<T>(filePath: string, key: string): T | undefined {
+    return this.read(filePath)[key] as T | undefined;
+  }
+
+  set(filePath: string, key: string, entry: unknown): void {
+    const registry = this.load(filePath);
+    registry.data[key] = entry;
+    registry.dirty.add(key);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Merge the changed keys of every registry into its file
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    for (const [filePath, registry] of this.registries) {
+      if (registry.dirty.size === 0) continue;
+      const merged = readJsonFile(filePath);
+      for (const key of registry.dirty) merged[key] = registry.data[key];
+      try {
+        writeJsonFile(filePath, merged);
+      } catch (error) {
+        logger.error(
+          `Could not write ${filePath}: ${(error as Error).message}`
+        );
+        continue;
+      }
+      registry.data = merged;
+      registry.dirty.clear();
+      registry.mtimeMs = this.mtime(filePath);
+    }
+  }
+
+  private load(filePath: string): CachedRegistry {
+    const cached = this.registries.get(filePath);
+    const mtimeMs = this.mtime(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) return cached;
+
+    const data = readJsonFile(filePath);
+    if (cached) {
+      for (const key of cached.dirty) data[key] = cached.data[key];
+    }
+    const registry: CachedRegistry = {
+      data,
+      mtimeMs,
+      dirty: cached?.dirty || new Set(),
+    };
+    this.registries.set(filePath, registry);
+    return registry;
+  }
+
+  private mtime(filePath: string): number {
+    try {
+      return fs.statSync(filePath).mtimeMs;
+    } catch {
+      return 0;
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY);
+    // Pending changes must not keep the process alive; teardown flushes
+    this.flushTimer.unref();
+  }
+}
+
+// Export singleton instance
+export const registryStore = RegistryStore.getInstance();
@@ -1,36 +1,220 @@
-import { manager } from "../nlp/nlp-processor";
+import { manager, NLP_LANGUAGES } from "../nlp/nlp-processor";
 import Logger from "./logger";
 import { testDataManager } from "./test-data-manager";
+import { Relation } from "../types/feature-types";
 
 export interface StepAction {
   action:
     | "navigate"
     | "click"
     | "fill"
+    | "fillTable"
     | "select"
     | "check"
     | "uncheck"
     | "assertText"
     | "assertUrl"
-    | "assertVisible";
+    | "assertVisible"
+    | "assertChecked"
+    | "assertElementText"
+    | "assertValue"
+    | "assertEnabled"
+    | "assertCount"
+    | "assertTitle"
+    | "assertAttribute"
+    | "assertTable"
+    | "press"
+    | "hover"
+    | "dragAndDrop"
+    | "upload"
+    | "doubleClick"
+    | "rightClick"
+    | "waitFor"
+    | "remember"
+    | "switchTab"
+    | "closeTab"
+    | "acceptDialog"
+    | "dismissDialog"
+    | "assertDialog";
   locator?: string;
   value?: string;
+  // Assertion is inverted ("should not be visible", "should be unchecked")
+  negated?: boolean;
+  // Text assertions: exact match or substring
+  match?: "equals" | "contains";
+  attribute?: string;
+  count?: number;
+  // Table assertions: the data table lists every row in order, some of the
+  // rows, or some of the rows in order
+  tableMatch?: "exact" | "subset" | "ordered";
+  // Drag and drop: where the element is dropped
+  target?: string;
+  // Wait steps: the condition and an explicit "up to 30 seconds" (ms)
+  waitFor?: "visible" | "hidden" | "text";
+  timeout?: number;
+  // Variable capture: what to read and the variable name to store it as
+  capture?: "text" | "value" | "url" | "title";
+  variable?: string;
+  // Tab steps: 1-based position; without it or a name (value) the newest tab
+  tabIndex?: number;
+  // Iframe the step's elements are in ("within the Payment frame, ...")
+  frame?: string;
+  // Container the step's elements are in: a section found by heading,
+  // landmark or fieldset legend, or a table row containing some text
+  section?: string;
+  row?: string;
+  // "in the row where "Name" is "Bob"": the column the row text must be in
+  column?: string;
+  // Which of several matches: 1-based ("the 2nd ..."), -1 for "the last ..."
+  ordinal?: number;
+  // Element found relative to some text ("... next to 'Backpack'")
+  position?: { relation: Relation; anchor: string };
   elementType?: "button" | "link" | "input" | "dropdown" | "checkbox" | "radio";
 }
 
 const logger = new Logger();
 
+// Placeholder resolution bound to the current scenario's variables
+type Resolve = (text: string) => string;
+
+/**
+ * Quoted values in order of appearance: 'the "Total" should have text "$42"'
+ * gives ["Total", "$42"]
+ */
+function quotedValues(text: string): string[] {
+  return Array.from(text.matchAll(/"([^"]*)"/g), (match) => match[1]);
+}
+
+/**
+ * Element and expected value of a text assertion. With a single quoted
+ * value the element is the unquoted subject: 'Then the last row should
+ * contain "Shipped"' gives ["row", "Shipped"] (ordinals are already removed)
+ */
+function elementAndValue(text: string): string[] {
+  const values = quotedValues(text);
+  if (values.length !== 1) return values;
+  const subject = text.match(
+    /^(?:(?:Given|When|Then|And|But|\*)\s+)?(?:the\s+)?([^"]+?)\s+(?:should|has|have|contains?)\b/i
+  );
+  return subject ? [subject[1], values[0]] : values;
+}
+
+// 'the dialog message should contain "sure"' asserts the browser dialog,
+// not an element with that text
+const DIALOG_SUBJECT =
+  /^(?:dialog|alert|confirm(?:ation)?|prompt)(?:\s+(?:message|text))?$/i;
+
+/**
+ * Element type named in the step text, e.g. 'the "Submit" button ...'
+ */
+function elementTypeFromText(text: string): StepAction["elementType"] {
+  const match = text.match(
+    /\b(button|link|input|field|dropdown|checkbox|radio)s?\b/i
+  );
+  if (!match) return undefined;
+  const type = match[1].toLowerCase();
+  return type === "field" ? "input" : (type as StepAction["elementType"]);
+}
+
+/**
+ * The element a step acts on: the first quoted value, or the words after
+ * the verb when nothing is quoted ("hover over Account menu")
+ */
+function stepElement(text: string, verb: RegExp): string | undefined {
+  const [quoted] = quotedValues(text);
+  if (quoted !== undefined) return quoted;
+  const match = text.match(verb);
+  return match
+    ? match[1]
+        .replace(/^the\s+/i, "")
+        .replace(/\s(button|link|input|field|menu|item)$/i, "")
+        .trim()
+    : undefined;
+}
+
+/**
+ * "up to 30 seconds" / "up to 500 ms" in a step, in milliseconds
+ */
+function timeoutFromText(text: string): number | undefined {
+  const match = text.match(
+    /\bup to (\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)\b/i
+  );
+  if (!match) return undefined;
+  const unit = match[2].toLowerCase();
+  const factor =
+    unit.startsWith("ms") || unit.startsWith("milli")
+      ? 1
+      : unit.startsWith("m")
+        ? 60000
+        : 1000;
+  return Math.round(parseFloat(match[1]) * factor);
+}
+
 /**
- * Resolve placeholders in text using test data manager
+ * Wait steps: 'wait until Loading spinner disappears', 'wait for the
+ * "Orders" table to contain 'Shipped'', 'wait up to 30 seconds for ...'.
+ * The expected text may be quoted or the rest of the step.
+ */
+function waitStep(
+  text: string,
+  resolve: Resolve,
+  condition: NonNullable<StepAction["waitFor"]>
+): StepAction {
+  const body = text
+    .replace(/^.*?\bwaits?\s+/i, "")
+    .replace(/\bup to \S+\s*\S*\s+/i, "")
+    .replace(/^(?:until|for)\s+/i, "");
+  let element = body;
+  let value: string | undefined;
+  if (condition === "text") {
+    const match = body.match(
+      /^(.+?)\s+(?:to contain|contains|to have text|has text|to show|shows)\s+(?:(["'])(.*)\2|(.+))$/i
+    );
+    if (!match) {
+      throw new Error(
+        `Unable to parse step: ${text} (expected "wait for <element> to contain <text>")`
+      );
+    }
+    element = match[1];
+    value = match[3] ?? match[4].trim();
+  } else {
+    element = body.replace(
+      /\s+(?:to\s+)?(?:disappears?|appears?|is\s+\w+(?:\s+\w+)?|to be\s+\w+(?:\s+\w+)?|goes away|to go away)\s*$/i,
+      ""
+    );
+  }
+  element = element
+    .replace(/^the\s+/i, "")
+    .replace(/["']/g, "")
+    .trim();
+
+  return {
+    action: "waitFor",
+    waitFor: condition,
+    locator: resolve(element),
+    value: value === undefined ? undefined : resolve(value),
+    timeout: timeoutFromText(text),
+  };
+}
+
+/**
+ * Resolve placeholders in text using scenario variables, then test data manager
  * Supports format: {key-path} where key path is dot-notation for nested data
  * Example: {username_recovery.validEmail} → testData. username_recovery.validEmail
+ * @param variables - Values captured by earlier steps (TestContext.variables)
  */
-function resolvePlaceholders(text: string): string {
+export function resolvePlaceholders(
+  text: string,
+  variables: { [key: string]: any } = {}
+): string {
   const placeholderRegex = /\{([A-Za-z_][A-Za-z0-9_.]*)}/g;
   return text.replace(placeholderRegex, (match, placeholderKey) => {
     try {
-      // Get data from current environment using test data manager
-      const value = testDataManager.getData(placeholderKey);
+      // Variables stored earlier in the scenario win over test data
+      const value =
+        placeholderKey in variables
+          ? variables[placeholderKey]
+          : testDataManager.getData(placeholderKey);
 
       if (value == undefined) {
         logger.error(`No data found for key: ${placeholderKey}`);
@@ -50,16 +234,19 @@ function resolvePlaceholders(text: string): string {
 /**
  * Your Mapping Object now returns the strict 'StepAction' type
  */
-const IntentMap: Record<string, (entities: any, text: string) => StepAction> = {
+const IntentMap: Record<
+  string,
+  (entities: any, text: string, resolve: Resolve) => StepAction
+> = {
   navigate: (e) => ({
     action: "navigate",
     // Prioritize the extracted URL path over the descriptive page name
     value: e.urlPath || e.page,
   }),
-  fill: (e) => ({
+  fill: (e, _, resolve) => ({
     action: "fill",
     locator: e.element,
-    value: resolvePlaceholders(e.value),
+    value: resolve(e.value),
     elementType: "input",
   }),
   click: (e, text) => ({
@@ -67,53 +254,497 @@ const IntentMap: Record<string, (entities: any, text: string) => StepAction> = {
     locator: e.element,
     elementType: text.toLowerCase().includes("link") ? "link" : "button",
   }),
-  select: (e) => ({
+  fillTable: () => ({
+    action: "fillTable",
+    elementType: "input",
+  }),
+  select: (e, _, resolve) => ({
     action: "select",
     locator: e.element,
-    value: resolvePlaceholders(e.value),
+    value: resolve(e.value),
     elementType: "dropdown",
   }),
-  check: (e) => ({
+  check: (e, text, resolve) => ({
     action: "check",
     locator: e.element,
-    value: resolvePlaceholders(e.value),
-    elementType: "checkbox",
+    value: e.value && resolve(e.value),
+    elementType: /\bradio\b/i.test(text) ? "radio" : "checkbox",
   }),
-  uncheck: (e) => ({
+  uncheck: (e, _, resolve) => ({
     action: "uncheck",
     locator: e.element,
-    value: resolvePlaceholders(e.value),
+    value: e.value && resolve(e.value),
     elementType: "checkbox",
   }),
-  radio: (e) => ({
+  radio: (e, _, resolve) => ({
     action: "click",
     locator: e.element,
-    value: resolvePlaceholders(e.value),
+    value: resolve(e.value),
     elementType: "radio",
   }),
-  assertText: (e) => ({
+  assertText: (e, text, resolve) => ({
     action: "assertText",
-    value: resolvePlaceholders(e.message || e.value),
+    value: resolve(e.message || e.value || quotedValues(text)[0]),
   }),
-  assertUrl: (e) => ({
+  assertUrl: (e, _, resolve) => ({
     action: "assertUrl",
-    value: resolvePlaceholders(e.page),
+    value: resolve(e.page),
   }),
-  assertVisible: (e) => ({
+  assertVisible: (e, _, resolve) => ({
     action: "assertVisible",
-    value: resolvePlaceholders(e.element),
+    value: resolve(e.element),
+  }),
+  assertNotVisible: (e, _, resolve) => ({
+    action: "assertVisible",
+    value: resolve(e.element),
+    negated: true,
+  }),
+  assertChecked: (e, text, resolve) => ({
+    action: "assertChecked",
+    locator: resolve(e.element),
+    elementType: /\bradio\b/i.test(text) ? "radio" : "checkbox",
+  }),
+  assertUnchecked: (e, text, resolve) => ({
+    action: "assertChecked",
+    locator: resolve(e.element),
+    elementType: /\bradio\b/i.test(text) ? "radio" : "checkbox",
+    negated: true,
   }),
+  // Multi-value assertions read their quoted values in order
+  assertElementText: (e, text, resolve) => {
+    const [element, value] = elementAndValue(text);
+    if (DIALOG_SUBJECT.test(element ?? "")) {
+      return IntentMap.assertDialog(e, text, resolve);
+    }
+    return {
+      action: "assertElementText",
+      locator: resolve(element),
+      value: resolve(value ?? ""),
+      elementType: elementTypeFromText(text),
+      match: "equals",
+    };
+  },
+  assertElementContains: (e, text, resolve) => {
+    const [element, value] = elementAndValue(text);
+    if (DIALOG_SUBJECT.test(element ?? "")) {
+      return IntentMap.assertDialog(e, text, resolve);
+    }
+    return {
+      action: "assertElementText",
+      locator: resolve(element),
+      value: resolve(value ?? ""),
+      elementType: elementTypeFromText(text),
+      match: "contains",
+    };
+  },
+  assertValue: (e, text, resolve) => {
+    const [element, value] = quotedValues(text);
+    return {
+      action: "assertValue",
+      locator: resolve(element),
+      value: resolve(value ?? ""),
+      elementType: elementTypeFromText(text) || "input",
+    };
+  },
+  assertEnabled: (e, text, resolve) => ({
+    action: "assertEnabled",
+    locator: resolve(quotedValues(text)[0] ?? e.element),
+    elementType: elementTypeFromText(text),
+  }),
+  assertDisabled: (e, text, resolve) => ({
+    action: "assertEnabled",
+    locator: resolve(quotedValues(text)[0] ?? e.element),
+    elementType: elementTypeFromText(text),
+    negated: true,
+  }),
+  assertCount: (e, text, resolve) => {
+    // 'should see 3 "Remove" buttons' or 'should see 3 items in cart'
+    const match = text.match(/\b(\d+)\s+(.+)$/);
+    const [quoted] = quotedValues(text);
+    // Without a number, 'should see "Products"' is a text assertion
+    if (!match) return IntentMap.assertText(e, text, resolve);
+    return {
+      action: "assertCount",
+      count: parseInt(match[1], 10),
+      locator: resolve(quoted ?? match[2].replace(/"/g, "").trim()),
+      elementType: elementTypeFromText(text),
+    };
+  },
+  assertTitle: (e, text, resolve) => ({
+    action: "assertTitle",
+    value: resolve(quotedValues(text)[0] ?? ""),
+    match: /\bcontains?\b/i.test(text) ? "contains" : "equals",
+  }),
+  assertAttribute: (e, text, resolve) => {
+    const [element, attribute, value] = quotedValues(text);
+    return {
+      action: "assertAttribute",
+      locator: resolve(element),
+      attribute,
+      value: resolve(value ?? ""),
+      elementType: elementTypeFromText(text),
+    };
+  },
+  press: (e, text, resolve) => {
+    // 'press "Enter" in "Search"', 'press Enter in search' or 'press Tab'
+    const quoted = quotedValues(text);
+    const match = text.match(
+      /\bpress(?:es)?\s+(\S+)(?:\s+(?:in|on)\s+(.+))?$/i
+    );
+    const element = quoted.length > 1 ? quoted[1] : match?.[2];
+    return {
+      action: "press",
+      value: quoted[0] ?? match?.[1],
+      locator: element && resolve(element.replace(/^the\s+/i, "")),
+      elementType: element ? elementTypeFromText(text) : undefined,
+    };
+  },
+  hover: (e, text, resolve) => ({
+    action: "hover",
+    locator: resolve(
+      stepElement(text, /\bhover(?:s)?\s+(?:over|on)?\s*(.+)$/i) ?? ""
+    ),
+    elementType: elementTypeFromText(text),
+  }),
+  dragAndDrop: (e, text, resolve) => {
+    // 'drag "Card A" to "Done" column' or 'drag Card A to Done column'
+    const quoted = quotedValues(text);
+    const match = text.match(/\bdrags?\s+(.+?)\s+(?:to|onto|into)\s+(.+)$/i);
+    const [source, target] =
+      quoted.length >= 2 ? quoted : [match?.[1], match?.[2]];
+    return {
+      action: "dragAndDrop",
+      locator: resolve((source ?? "").replace(/^the\s+/i, "")),
+      target: resolve((target ?? "").replace(/^the\s+/i, "")),
+    };
+  },
+  upload: (e, text, resolve) => {
+    // 'upload "invoice.pdf" to "Attachments"'; several files are comma separated
+    const quoted = quotedValues(text);
+    const match = text.match(/\buploads?\s+(.+?)\s+(?:to|in|into)\s+(.+)$/i);
+    const [file, element] =
+      quoted.length >= 2 ? quoted : [match?.[1], match?.[2]];
+    return {
+      action: "upload",
+      value: resolve(file ?? ""),
+      locator: resolve((element ?? "").replace(/^the\s+/i, "")),
+      elementType: "input",
+    };
+  },
+  doubleClick: (e, text, resolve) => ({
+    action: "doubleClick",
+    locator: resolve(
+      stepElement(text, /\bdouble[- ]clicks?\s+(?:on\s+)?(.+)$/i) ?? ""
+    ),
+    elementType: elementTypeFromText(text),
+  }),
+  rightClick: (e, text, resolve) => ({
+    action: "rightClick",
+    locator: resolve(
+      stepElement(text, /\bright[- ]clicks?\s+(?:on\s+)?(.+)$/i) ?? ""
+    ),
+    elementType: elementTypeFromText(text),
+  }),
+  waitForVisible: (e, text, resolve) => waitStep(text, resolve, "visible"),
+  waitForHidden: (e, text, resolve) => waitStep(text, resolve, "hidden"),
+  waitForText: (e, text, resolve) => waitStep(text, resolve, "text"),
+  remember: (e, text, resolve) => {
+    // 'remember the text of "Order Number" as orderId',
+    // 'store the current URL as checkoutUrl', 'remember the "Total" as total'
+    const match = text.match(
+      /\b(?:remembers?|stores?|saves?)\s+(?:the\s+)?(?:(?:current\s+|page\s+)*(url|title)|(?:(text|value)\s+of\s+)?(.+?))\s+as\s+(.+)$/i
+    );
+    if (!match) throw new Error(`Unable to parse step: ${text}`);
+    const [, page, kind = "text", element, variable] = match;
+    return {
+      action: "remember",
+      capture: (page || kind).toLowerCase() as StepAction["capture"],
+      locator:
+        element &&
+        resolve(
+          element
+            .replace(/^the\s+|"/gi, "")
+            .replace(/\s(button|link|input|field|dropdown)$/i, "")
+            .trim()
+        ),
+      variable: variable.replace(/["{}]/g, "").trim(),
+      elementType: element ? elementTypeFromText(element) : undefined,
+    };
+  },
+  switchTab: (e, text, resolve) => tabStep("switchTab", text, resolve),
+  closeTab: (e, text, resolve) => tabStep("closeTab", text, resolve),
+  acceptDialog: (e, text, resolve) => {
+    // 'accept the prompt with "Bob"' answers a prompt dialog
+    const [promptText] = quotedValues(text);
+    return {
+      action: "acceptDialog",
+      value: promptText === undefined ? undefined : resolve(promptText),
+    };
+  },
+  dismissDialog: () => ({ action: "dismissDialog" }),
+  assertDialog: (e, text, resolve) => ({
+    action: "assertDialog",
+    value: resolve(quotedValues(text)[0] ?? ""),
+    match: /\bcontains?\b/i.test(text) ? "contains" : "equals",
+  }),
+  // 'the "Orders" table should contain:', '... should contain exactly:',
+  // 'the orders grid should contain in order:' followed by a data table
+  assertTable: (e, text, resolve) => {
+    // With the expected text in the step, 'the "Orders" table should
+    // contain "Shipped"' is a text assertion
+    if (/\bshould\s+(?:contain|have)\b[^"]*"/i.test(text)) {
+      return IntentMap.assertElementContains(e, text, resolve);
+    }
+    const subject = text.replace(
+      /^(?:(?:Given|When|Then|And|But|\*)\s+)?(?:the\s+)?/i,
+      ""
+    );
+    const table =
+      quotedValues(text)[0] ?? subject.match(/^(.+?)\s+(?:table|grid)\b/i)?.[1];
+    return {
+      action: "assertTable",
+      locator: table === undefined ? undefined : resolve(table),
+      tableMatch: /\b(exactly|only)\b/i.test(text)
+        ? "exact"
+        : /\bin\s+(?:this\s+|that\s+)?order\b/i.test(text)
+          ? "ordered"
+          : "subset",
+    };
+  },
+};
+
+/**
+ * Tab steps: 'switch to the new tab', 'switch to the "Checkout" tab',
+ * 'switch to tab 2', 'switch back to the original tab', 'close the tab'
+ */
+function tabStep(
+  action: "switchTab" | "closeTab",
+  text: string,
+  resolve: Resolve
+): StepAction {
+  const [name] = quotedValues(text);
+  if (name !== undefined) return { action, value: resolve(name) };
+
+  const position =
+    text.match(/\b(?:tab|window)\s+(\d+)\b/i) ||
+    text.match(/\b(\d+)(?:st|nd|rd|th)\s+(?:tab|window)\b/i);
+  if (position) return { action, tabIndex: parseInt(position[1], 10) };
+  if (/\b(first|original|main)\b/i.test(text)) return { action, tabIndex: 1 };
+  return { action };
+}
+
+/**
+ * Entity text without quotes. Conditions can capture words around a quoted
+ * value (e.g. `Benutzername" ein`, `Then "Cart`), so when the entity overlaps
+ * a quoted value in the step, that value is used.
+ */
+function entityText(entity: any, stepText: string): string {
+  const quotedValue = /"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = quotedValue.exec(stepText)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length - 1;
+    if (entity.start <= end && entity.end >= start) return match[1].trim();
+  }
+  return entity.sourceText.replace(/"/g, "").trim();
+}
+
+interface StepScope {
+  text: string;
+  frame?: string;
+  section?: string;
+  row?: string;
+  column?: string;
+}
+
+const CONTAINER_WORDS =
+  "i?frame|section|form|panel|fieldset|region|area|dialog|modal|card";
+
+// 'Within the "Payment" frame, ...', 'In the Shipping Address section, ...'
+const SCOPE_PREFIX = new RegExp(
+  `^((?:Given|When|Then|And|But|\\*)\\s+)?(?:(?:the\\s+)?user\\s+)?(?:with)?in(?:side)?\\s+(?:the\\s+)?"?([^",]+?)"?\\s+(${CONTAINER_WORDS})\\s*,\\s*(.+)$`,
+  "i"
+);
+// 'In row containing 'SKU-123', ...'
+const ROW_PREFIX =
+  /^((?:Given|When|Then|And|But|\*)\s+)?(?:(?:the\s+)?user\s+)?(?:with)?in\s+(?:the\s+)?row\s+(?:containing|with)\s+(["'])(.+?)\2\s*,\s*(.+)$/i;
+// '... in the "Shipping Address" section'. The name must be quoted so that
+// 'click "Add" in the text area' keeps its text area.
+const SCOPE_SUFFIX = new RegExp(
+  `^(.+?)\\s+(?:with)?in(?:side)?\\s+the\\s+"([^"]+)"\\s+(${CONTAINER_WORDS})\\s*$`,
+  "i"
+);
+// '... in row containing 'SKU-123''
+const ROW_SUFFIX =
+  /^(.+?)\s+in\s+(?:the\s+)?row\s+(?:containing|with)\s+(["'])(.+?)\2\s*$/i;
+
+// 'In the row where "Name" is "Bob", ...'
+const ROW_WHERE_PREFIX =
+  /^((?:Given|When|Then|And|But|\*)\s+)?(?:(?:the\s+)?user\s+)?(?:with)?in\s+(?:the\s+)?row\s+where\s+(["']?)(.+?)\2\s+(?:is|equals)\s+(["'])(.+?)\4\s*,\s*(.+)$/i;
+// '... in the row where "Name" is "Bob"', also before a remember step's
+// ' as name'
+const ROW_WHERE_SUFFIX =
+  /^(.+?)\s+(?:in|of|from)\s+(?:the\s+)?row\s+where\s+(["']?)(.+?)\2\s+(?:is|equals)\s+(["'])(.+?)\4(\s+as\s+.+)?\s*$/i;
+
+/**
+ * Split off where a step's elements are: 'When within the "Payment" frame,
+ * user fill ...' or 'When user click "Remove" button in row containing
+ * 'SKU-123'' leave 'When user fill ...' / 'When user click "Remove" button'
+ */
+function extractScope(stepText: string): StepScope {
+  const scope: StepScope = { text: stepText };
+  const setContainer = (name: string, kind: string) => {
+    if (/^i?frame$/i.test(kind)) scope.frame = name.trim();
+    else scope.section = name.trim();
+  };
+
+  // A frame prefix can combine with a section or row, so keep stripping
+  while (true) {
+    let match: RegExpMatchArray | null;
+    if ((match = scope.text.match(ROW_WHERE_PREFIX))) {
+      const [, keyword = "", , column, , row, rest] = match;
+      Object.assign(scope, { column, row, text: `${keyword}${rest}` });
+    } else if ((match = scope.text.match(ROW_WHERE_SUFFIX))) {
+      const [, rest, , column, , row, tail = ""] = match;
+      Object.assign(scope, { column, row, text: `${rest}${tail}` });
+    } else if ((match = scope.text.match(SCOPE_PREFIX))) {
+      const [, keyword = "", name, kind, rest] = match;
+      setContainer(name, kind);
+      scope.text = `${keyword}${rest}`;
+    } else if ((match = scope.text.match(ROW_PREFIX))) {
+      const [, keyword = "", , row, rest] = match;
+      scope.row = row;
+      scope.text = `${keyword}${rest}`;
+    } else if ((match = scope.text.match(ROW_SUFFIX))) {
+      scope.row = match[3];
+      scope.text = match[1];
+    } else if ((match = scope.text.match(SCOPE_SUFFIX))) {
+      const [, rest, name, kind] = match;
+      setContainer(name, kind);
+      scope.text = rest;
+    } else {
+      return scope;
+    }
+  }
+}
+
+interface ElementPosition {
+  text: string;
+  ordinal?: number;
+  position?: { relation: Relation; anchor: string };
+}
+
+const ORDINAL_WORDS = [
+  "first",
+  "second",
+  "third",
+  "fourth",
+  "fifth",
+  "sixth",
+  "seventh",
+  "eighth",
+  "ninth",
+  "tenth",
+];
+
+// 'the 2nd "Add to cart" button', 'the last row'; tabs and windows are left
+// to the tab steps
+const ORDINAL = new RegExp(
+  `\\b(?:the\\s+)?(\\d+(?:st|nd|rd|th)|${ORDINAL_WORDS.join("|")}|last)\\s+(?=["']|(?:buttons?|links?|inputs?|fields?|rows?|checkbox(?:es)?|radios?|dropdowns?|items?|cells?|products?|cards?)\\b)`,
+  "i"
+);
+// '... next to 'Sauce Labs Backpack'', '... below "Total"'
+const POSITION =
+  /\s+(?:that\s+is\s+)?(next to|near|above|below|under|(?:to the )?right of|(?:to the )?left of)\s+(?:the\s+)?(["'])(.+?)\2/i;
+
+const RELATIONS: { [phrase: string]: Relation } = {
+  "next to": "near",
+  near: "near",
+  above: "above",
+  below: "below",
+  under: "below",
+  "right of": "right-of",
+  "left of": "left-of",
 };
 
+/**
+ * Split off which of several matching elements a step means: 'When user
+ * click the 2nd "Add to cart" button' or 'When user click "Remove" button
+ * next to 'Backpack'' leave 'When user click "Add to cart" button' /
+ * 'When user click "Remove" button'
+ */
+function extractElementPosition(stepText: string): ElementPosition {
+  const result: ElementPosition = { text: stepText };
+
+  const ordinal = result.text.match(ORDINAL);
+  if (ordinal) {
+    const word = ordinal[1].toLowerCase();
+    result.ordinal =
+      word === "last"
+        ? -1
+        : ORDINAL_WORDS.includes(word)
+          ? ORDINAL_WORDS.indexOf(word) + 1
+          : parseInt(word, 10);
+    result.text = result.text.replace(ORDINAL, "");
+  }
+
+  const position = result.text.match(POSITION);
+  if (position) {
+    const phrase = position[1].toLowerCase().replace(/^to the /, "");
+    result.position = { relation: RELATIONS[phrase], anchor: position[3] };
+    result.text = result.text.replace(POSITION, "");
+  }
+
+  return result;
+}
+
 /**
  * Parses Gherkin text into a structured StepAction.
+ * @param language - Gherkin language of the feature (see NLP_LANGUAGES)
  */
-export async function parseStep(stepText: string): Promise<StepAction> {
+export async function parseStep(
+  stepText: string,
+  language: string = "en",
+  variables: { [key: string]: any } = {}
+): Promise<StepAction> {
+  if (!NLP_LANGUAGES.includes(language)) {
+    throw new Error(
+      `Step not recognized: ${stepText}. No NLP model for language "${language}"; use a custom step definition instead.`
+    );
+  }
+
+  const element = extractElementPosition(stepText);
+  if (element.text !== stepText) {
+    const action = await parseStep(element.text, language, variables);
+    return {
+      ...action,
+      ordinal: element.ordinal,
+      position: element.position && {
+        relation: element.position.relation,
+        anchor: resolvePlaceholders(element.position.anchor, variables),
+      },
+    };
+  }
+
+  const scope = extractScope(stepText);
+  if (scope.text !== stepText) {
+    const action = await parseStep(scope.text, language, variables);
+    const resolve = (value?: string) =>
+      value === undefined ? undefined : resolvePlaceholders(value, variables);
+    return {
+      ...action,
+      frame: resolve(scope.frame),
+      section: resolve(scope.section),
+      row: resolve(scope.row),
+      column: resolve(scope.column),
+    };
+  }
+
   // 1. Bulletproof URL Regex
   const urlMatch = stepText.match(/\/["\w\d\-\/]*|\/$/);
 
   // 2. Process using the manager exported from nlp-processor
-  const response = await manager.process("en", stepText);
+  const response = await manager.process(language, stepText);
 
   // 3. Fallback for navigation if NLP fails
   if (
@@ -143,16 +774,15 @@ export async function parseStep(stepText: string): Promise<StepAction> {
     sorted.length >= 2 &&
     !["action.navigate", "assert.text"].includes(response.intent)
   ) {
-    entities.value = sorted[0].sourceText.replace(/"/g, "").trim();
-    entities.element = sorted[1].sourceText
-      .replace(/"/g, "")
+    entities.value = entityText(sorted[0], stepText);
+    entities.element = entityText(sorted[1], stepText)
       .replace(/\s(input|button|link|checkbox|radio|page|dropdown)$/i, "")
       .trim();
   }
 
   // General Entity Mapping
   response.entities.forEach((e: any) => {
-    let val = e.sourceText.replace(/"/g, "").trim();
+    let val = entityText(e, stepText);
     val = val
       .replace(
         /\s(input|button|link|checkbox|radio|page|dropdown|message)$/i,
@@ -164,5 +794,7 @@ export async function parseStep(stepText: string): Promise<StepAction> {
   });
 
   const mapper = IntentMap[response.intent];
-  return mapper(entities, stepText);
+  return mapper(entities, stepText, (value) =>
+    resolvePlaceholders(value, variables)
+  );
 }
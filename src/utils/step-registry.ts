@@ -0,0 +1,260 @@
+import * as fs from "fs";
+import * as path from "path";
+import { globSync } from "glob";
+import {
+  StepArgument,
+  StepDefinition,
+  StepDefinitionFunction,
+  Step,
+  TestContext,
+} from "../types/feature-types";
+import Logger from "./logger";
+import { resolvePlaceholders } from "./step-parser";
+
+type Converter = (value: string) => string | number;
+
+interface ParameterType {
+  pattern: string;
+  convert: Converter;
+}
+
+interface CompiledStepDefinition {
+  definition: StepDefinition;
+  regex: RegExp;
+  // Converters for Cucumber expression parameters, in capture group order
+  converters: Converter[];
+}
+
+export interface StepMatch {
+  definition: StepDefinition;
+  args: StepArgument[];
+}
+
+// Cucumber expression parameter types
+const PARAMETER_TYPES: Record<string, ParameterType> = {
+  int: { pattern: "(-?\\d+)", convert: (v) => parseInt(v, 10) },
+  float: { pattern: "(-?\\d*\\.?\\d+)", convert: (v) => parseFloat(v) },
+  word: { pattern: "([^\\s]+)", convert: (v) => v },
+  string: {
+    pattern: `("[^"]*"|'[^']*')`,
+    convert: (v) => v.substring(1, v.length - 1),
+  },
+  "": { pattern: "(.*)", convert: (v) => v },
+};
+
+export class StepRegistry {
+  private static instance: StepRegistry;
+  private definitions: CompiledStepDefinition[] = [];
+  private loadedDirs = new Set<string>();
+  private logger = new Logger();
+
+  private constructor() {}
+
+  static getInstance(): StepRegistry {
+    if (!StepRegistry.instance) {
+      StepRegistry.instance = new StepRegistry();
+    }
+    return StepRegistry.instance;
+  }
+
+  /**
+   * Register a step definition
+   * @param keyword - Given, When or Then. Only used to choose between
+   *   definitions with the same pattern, by the step's effective keyword.
+   * @param pattern - RegExp or Cucumber expression (e.g. 'user has {int} items')
+   * @param fn - Step implementation, called with `this` bound to the TestContext
+   */
+  register<Args extends StepArgument[]>(
+    keyword: StepDefinition["keyword"],
+    pattern: RegExp | string,
+    fn: StepDefinitionFunction<Args>
+  ): void {
+    const definition: StepDefinition = {
+      keyword,
+      pattern,
+      fn: fn as StepDefinitionFunction,
+    };
+    if (pattern instanceof RegExp) {
+      // exec() on a global or sticky regex resumes from its lastIndex and
+      // would depend on earlier steps, so match with a copy without them
+      const regex = new RegExp(
+        pattern.source,
+        pattern.flags.replace(/[gy]/g, "")
+      );
+      this.definitions.push({ definition, regex, converters: [] });
+    } else {
+      const { regex, converters } = this.compileExpression(pattern);
+      this.definitions.push({ definition, regex, converters });
+    }
+  }
+
+  /**
+   * Load step definition files (*.ts / *.js) from a folder, recursively.
+   * Each folder is only loaded once.
+   */
+  loadFrom(stepsDir: string): void {
+    const resolvedDir = path.resolve(stepsDir);
+    if (this.loadedDirs.has(resolvedDir)) return;
+    this.loadedDirs.add(resolvedDir);
+
+    if (!fs.existsSync(resolvedDir)) {
+      this.logger.info(
+        `Step definitions folder not found at ${resolvedDir}. Using NLP steps only.`
+      );
+      return;
+    }
+
+    const files = globSync("**/*.{ts,js}", {
+      cwd: resolvedDir,
+      absolute: true,
+      nodir: true,
+      ignore: ["**/*.d.ts"],
+    }).sort();
+
+    for (const file of files) {
+      try {
+        require(file);
+      } catch (error) {
+        this.logger.error(`Failed to load step definitions ${file}: ${error}`);
+        throw new Error(`Failed to load step definitions ${file}: ${error}`);
+      }
+    }
+    this.logger.info(
+      `Loaded ${this.definitions.length} step definition(s) from ${resolvedDir}`
+    );
+  }
+
+  /**
+   * Find the step definition matching a step's text.
+   * Returns null when no definition matches; throws when several do and
+   * the step's effective keyword does not single one out.
+   * String arguments have {placeholders} resolved from the scenario
+   * variables and test data.
+   */
+  match(
+    step: Step,
+    variables: TestContext["variables"] = {}
+  ): StepMatch | null {
+    let matches = this.definitions
+      .map((compiled) => ({ compiled, result: compiled.regex.exec(step.text) }))
+      .filter(({ result }) => result !== null);
+
+    if (matches.length === 0) return null;
+    if (matches.length > 1) {
+      // e.g. Given("the cart is empty") sets up, Then(...) asserts
+      const byKeyword = matches.filter(
+        ({ compiled }) => compiled.definition.keyword === step.effectiveKeyword
+      );
+      if (byKeyword.length > 0) matches = byKeyword;
+    }
+    if (matches.length > 1) {
+      const patterns = matches
+        .map(({ compiled }) => `  - ${compiled.definition.pattern}`)
+        .join("\n");
+      throw new Error(
+        `Ambiguous step: "${step.text}" matches multiple step definitions:\n${patterns}`
+      );
+    }
+
+    const { compiled, result } = matches[0];
+    const args: StepArgument[] = result!.slice(1).map((value, index) => {
+      if (value === undefined) return value;
+      const converter = compiled.converters[index];
+      const converted = converter ? converter(value) : value;
+      return typeof converted === "string"
+        ? resolvePlaceholders(converted, variables)
+        : converted;
+    });
+
+    // The step's data table or docstring is passed as the last argument
+    if (step.dataTable) args.push(step.dataTable);
+    if (step.docString) args.push(step.docString);
+
+    return { definition: compiled.definition, args };
+  }
+
+  /**
+   * Remove all registered definitions (mainly useful for tooling)
+   */
+  clear(): void {
+    this.definitions = [];
+    this.loadedDirs.clear();
+  }
+
+  /**
+   * Convert a Cucumber expression into an anchored RegExp
+   */
+  private compileExpression(expression: string): {
+    regex: RegExp;
+    converters: Converter[];
+  } {
+    const converters: Converter[] = [];
+    let source = "";
+    // Split into parameters ({int}), optional text ((s)) and literal text
+    const parts = expression.split(/(\{[^}]*\}|\([^)]*\))/);
+
+    for (const part of parts) {
+      if (part.startsWith("{") && part.endsWith("}")) {
+        const type = PARAMETER_TYPES[part.slice(1, -1)];
+        if (!type) {
+          throw new Error(
+            `Unknown parameter type ${part} in step pattern "${expression}"`
+          );
+        }
+        source += type.pattern;
+        converters.push(type.convert);
+      } else if (part.startsWith("(") && part.endsWith(")")) {
+        source += `(?:${this.escapeRegex(part.slice(1, -1))})?`;
+      } else {
+        // "a/b" alternation between words
+        source += part
+          .split(/(\s+)/)
+          .map((word) =>
+            word.includes("/") && !/\s/.test(word)
+              ? `(?:${word.split("/").map(this.escapeRegex).join("|")})`
+              : this.escapeRegex(word)
+          )
+          .join("");
+      }
+    }
+
+    return { regex: new RegExp(`^${source}$`), converters };
+  }
+
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
+
+// Export singleton instance
+export const stepRegistry = StepRegistry.getInstance();
+
+/**
+ * Register a Given step definition
+ */
+export function Given<Args extends StepArgument[]>(
+  pattern: RegExp | string,
+  fn: StepDefinitionFunction<Args>
+) {
+  stepRegistry.register("Given", pattern, fn);
+}
+
+/**
+ * Register a When step definition
+ */
+export function When<Args extends StepArgument[]>(
+  pattern: RegExp | string,
+  fn: StepDefinitionFunction<Args>
+) {
+  stepRegistry.register("When", pattern, fn);
+}
+
+/**
+ * Register a Then step definition
+ */
+export function Then<Args extends StepArgument[]>(
+  pattern: RegExp | string,
+  fn: StepDefinitionFunction<Args>
+) {
+  stepRegistry.register("Then", pattern, fn);
+}
@@ -0,0 +1,192 @@
+/**
+ * Cucumber-style tag expressions, e.g. "@smoke and not (@wip or @flaky)".
+ * Tags are compared without their leading "@", so "--tags=smoke" and
+ * "--tags=@smoke" select the same scenarios.
+ */
+
+export interface TagExpression {
+  evaluate(tags: string[]): boolean;
+  toString(): string;
+}
+
+export class TagExpressionError extends Error {
+  constructor(expression: string, reason: string, position?: number) {
+    super(
+      `Invalid tag expression "${expression}": ${reason}` +
+        (position !== undefined ? ` (at position ${position + 1})` : "")
+    );
+    this.name = "TagExpressionError";
+  }
+}
+
+type Token = { value: string; position: number };
+
+const OPERATORS = ["and", "or", "not"];
+
+/**
+ * Matches every scenario; used when no tag filter is configured
+ */
+const MATCH_ALL: TagExpression = {
+  evaluate: () => true,
+  toString: () => "",
+};
+
+/**
+ * Parse a tag expression. Throws TagExpressionError when malformed.
+ */
+export function parseTagExpression(expression: string): TagExpression {
+  if (expression.trim() === "") {
+    return MATCH_ALL;
+  }
+
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const fail = (reason: string, token?: Token): never => {
+    throw new TagExpressionError(
+      expression,
+      reason,
+      token ? token.position : expression.length
+    );
+  };
+
+  // or-expression := and-expression ("or" and-expression)*
+  const parseOr = (): TagExpression => {
+    let left = parseAnd();
+    while (peek()?.value === "or") {
+      index++;
+      const lhs = left;
+      const rhs = parseAnd();
+      left = {
+        evaluate: (tags) => lhs.evaluate(tags) || rhs.evaluate(tags),
+        toString: () => `(${lhs} or ${rhs})`,
+      };
+    }
+    return left;
+  };
+
+  // and-expression := not-expression ("and" not-expression)*
+  const parseAnd = (): TagExpression => {
+    let left = parseNot();
+    while (peek()?.value === "and") {
+      index++;
+      const lhs = left;
+      const rhs = parseNot();
+      left = {
+        evaluate: (tags) => lhs.evaluate(tags) && rhs.evaluate(tags),
+        toString: () => `(${lhs} and ${rhs})`,
+      };
+    }
+    return left;
+  };
+
+  // not-expression := "not" not-expression | primary
+  const parseNot = (): TagExpression => {
+    if (peek()?.value === "not") {
+      index++;
+      const operand = parseNot();
+      return {
+        evaluate: (tags) => !operand.evaluate(tags),
+        toString: () => `not ${operand}`,
+      };
+    }
+    return parsePrimary();
+  };
+
+  // primary := tag | "(" or-expression ")"
+  const parsePrimary = (): TagExpression => {
+    const token = peek();
+    if (!token) {
+      return fail("unexpected end of expression");
+    }
+    if (token.value === "(") {
+      index++;
+      const inner = parseOr();
+      if (peek()?.value !== ")") {
+        return fail('missing ")"', peek());
+      }
+      index++;
+      return inner;
+    }
+    if (token.value === ")" || OPERATORS.includes(token.value)) {
+      return fail(`unexpected "${token.value}"`, token);
+    }
+
+    index++;
+    const tag = normalizeTag(token.value);
+    return {
+      evaluate: (tags) => tags.some((t) => normalizeTag(t) === tag),
+      toString: () => `@${tag}`,
+    };
+  };
+
+  const result = parseOr();
+  if (index < tokens.length) {
+    fail(`unexpected "${tokens[index].value}"`, tokens[index]);
+  }
+  return result;
+}
+
+/**
+ * Build a single filter from the --tags and --excludeTags options.
+ * Each include entry may itself be an expression; entries are OR-ed
+ * together, and any exclude tag rejects the scenario.
+ */
+export function createTagFilter(
+  includeTags?: string[],
+  excludeTags?: string[]
+): TagExpression {
+  const include = (includeTags || []).filter((tag) => tag.trim() !== "");
+  const exclude = (excludeTags || []).filter((tag) => tag.trim() !== "");
+
+  const parts: string[] = [];
+  if (include.length > 0) {
+    parts.push(`(${include.map((tag) => `(${tag})`).join(" or ")})`);
+  }
+  if (exclude.length > 0) {
+    parts.push(`not (${exclude.map((tag) => `(${tag})`).join(" or ")})`);
+  }
+
+  // Validate each entry on its own so errors point at what the user typed
+  [...include, ...exclude].forEach((tag) => parseTagExpression(tag));
+
+  return parseTagExpression(parts.join(" and "));
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^@/, "");
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let current = "";
+  let start = 0;
+
+  const flush = () => {
+    if (current !== "") {
+      tokens.push({ value: current, position: start });
+      current = "";
+    }
+  };
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === "\\" && i + 1 < expression.length) {
+      // Escaped characters such as "\(" are part of the tag name
+      if (current === "") start = i;
+      current += expression[++i];
+    } else if (/\s/.test(char)) {
+      flush();
+    } else if (char === "(" || char === ")") {
+      flush();
+      tokens.push({ value: char, position: i });
+    } else {
+      if (current === "") start = i;
+      current += char;
+    }
+  }
+  flush();
+
+  return tokens;
+}
@@ -128,6 +128,22 @@ export class TestDataManager {
     return data !== undefined;
   }
 
+  /**
+   * Absolute path of a fixture file, relative to the testdata folder
+   * @param fileName - e.g. 'invoice.pdf' or 'uploads/avatar.png'
+   * @returns string
+   */
+  getFixturePath(fileName: string): string {
+    const filePath = path.resolve(this.testDataDir, fileName);
+    if (!fs.existsSync(filePath)) {
+      this.logger.error(`Fixture file not found: ${filePath}`);
+      throw new Error(
+        `Fixture file "${fileName}" not found in ${this.testDataDir}`
+      );
+    }
+    return filePath;
+  }
+
   /**
    * Reload test data from files
    */
@@ -0,0 +1,74 @@
+import { expect, test } from "@playwright/test";
+import { FeatureParser } from "../../src/parser/feature-parser";
+
+const parse = (content: string) =>
+  FeatureParser.parseFeatureContent(content, "keywords.feature");
+
+const keywords = (content: string) =>
+  parse(content).scenarios[0].steps.map((step) => [
+    step.keyword,
+    step.effectiveKeyword,
+  ]);
+
+test.describe("Effective step keywords", () => {
+  test("gives * the keyword of the step before it", () => {
+    expect(
+      keywords(`Feature: Cart
+  Scenario: Add items
+    Given user is on the "shop" page
+    * user is logged in
+    When user click "Add to cart"
+    * user click "Checkout"
+`)
+    ).toEqual([
+      ["Given", "Given"],
+      ["*", "Given"],
+      ["When", "When"],
+      ["*", "When"],
+    ]);
+  });
+
+  test("gives And and But after Then the Then keyword", () => {
+    expect(
+      keywords(`Feature: Cart
+  Scenario: Check the cart
+    When user click "Cart"
+    Then user should see "Cart"
+    And user should see "Total"
+    But user should not see "Empty"
+`)
+    ).toEqual([
+      ["When", "When"],
+      ["Then", "Then"],
+      ["And", "Then"],
+      ["But", "Then"],
+    ]);
+  });
+
+  test("treats a first * step as Given", () => {
+    expect(
+      keywords(`Feature: Cart
+  Scenario: Bullets only
+    * user is on the "shop" page
+    And user click "Cart"
+`)
+    ).toEqual([
+      ["*", "Given"],
+      ["And", "Given"],
+    ]);
+  });
+
+  test("starts each scenario afresh after the background", () => {
+    const feature = parse(`Feature: Cart
+  Background:
+    Given user is on the "shop" page
+    Then user should see "Shop"
+
+  Scenario: Bullets after a background
+    * user click "Cart"
+`);
+
+    expect(feature.background?.steps[1].effectiveKeyword).toBe("Then");
+    expect(feature.scenarios[0].steps[0].effectiveKeyword).toBe("Given");
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect, test } from "@playwright/test";
+import { FeatureParser } from "../../src/parser/feature-parser";
+
+const ORDERS = `Feature: Orders
+
+  Scenario: List orders
+    Given user is on the "orders" page
+    Then user should see "Orders"
+
+  Scenario Outline: Open an order
+    Given user is on the "orders" page
+    When user click "<order>"
+
+    Examples:
+      | order |
+      | A-1   |
+      | B-2   |
+
+  Rule: Refunds
+    Background:
+      Given user is logged in
+
+    Scenario: Refund an order
+      When user click "Refund"
+`;
+
+test.describe("feature targets", () => {
+  let dir: string;
+  const write = (file: string, content: string) => {
+    const filePath = path.join(dir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+  const scenarioNames = (pattern: string) =>
+    FeatureParser.parseFeatures([pattern]).flatMap((feature) =>
+      feature.scenarios.map((scenario) => scenario.name)
+    );
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "feature-targets-"));
+    write("orders.feature", ORDERS);
+    write("checkout/cart.feature", "Feature: Cart\n");
+    write("checkout/payment/smoke_pay.feature", "Feature: Pay\n");
+    write("checkout/notes.txt", "Feature: Not a feature file\n");
+  });
+
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test("finds feature files in nested folders", () => {
+    const targets = FeatureParser.resolveFeatureTargets([dir]);
+
+    expect(
+      targets.map((target) => path.relative(dir, target.filePath))
+    ).toEqual([
+      path.join("checkout", "cart.feature"),
+      path.join("checkout", "payment", "smoke_pay.feature"),
+      "orders.feature",
+    ]);
+  });
+
+  test("merges files matched by several globs", () => {
+    const targets = FeatureParser.resolveFeatureTargets([
+      path.join(dir, "**", "smoke_*.feature"),
+      path.join(dir, "checkout", "**", "*.feature"),
+      `${path.join(dir, "orders.feature")}:3`,
+    ]);
+
+    expect(
+      targets.map((target) => [
+        path.relative(dir, target.filePath),
+        target.lines,
+      ])
+    ).toEqual([
+      [path.join("checkout", "payment", "smoke_pay.feature"), []],
+      [path.join("checkout", "cart.feature"), []],
+      ["orders.feature", [3]],
+    ]);
+  });
+
+  test("lets a whole file win over line filters for it", () => {
+    const file = path.join(dir, "orders.feature");
+
+    const [target] = FeatureParser.resolveFeatureTargets([`${file}:3:7`, file]);
+
+    expect(target.lines).toEqual([]);
+  });
+
+  test("rejects patterns that match nothing", () => {
+    expect(() =>
+      FeatureParser.resolveFeatureTargets([path.join(dir, "missing")])
+    ).toThrow("Feature file or directory not found");
+    expect(() =>
+      FeatureParser.resolveFeatureTargets([path.join(dir, "**", "*.story")])
+    ).toThrow("No feature files matched");
+  });
+
+  test("selects the scenario declared at a line", () => {
+    const file = path.join(dir, "orders.feature");
+
+    expect(scenarioNames(`${file}:3`)).toEqual(["List orders"]);
+    expect(scenarioNames(`${file}:20`)).toEqual(["Refund an order"]);
+  });
+
+  test("selects the scenario containing a step line", () => {
+    const file = path.join(dir, "orders.feature");
+
+    expect(scenarioNames(`${file}:5`)).toEqual(["List orders"]);
+    expect(scenarioNames(`${file}:21`)).toEqual(["Refund an order"]);
+  });
+
+  test("selects every row from inside an outline, or one Examples row", () => {
+    const file = path.join(dir, "orders.feature");
+
+    expect(scenarioNames(`${file}:9`)).toEqual([
+      "Open an order (Example 1)",
+      "Open an order (Example 2)",
+    ]);
+    expect(scenarioNames(`${file}:14`)).toEqual(["Open an order (Example 2)"]);
+  });
+
+  test("does not select a scenario from a line outside one", () => {
+    const file = path.join(dir, "orders.feature");
+
+    expect(() => scenarioNames(`${file}:1`)).toThrow(
+      "No scenario found at line(s) 1"
+    );
+    expect(() => scenarioNames(`${file}:17`)).toThrow(
+      "No scenario found at line(s) 17"
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { expect, test } from "@playwright/test";
+import { FeatureParser } from "../../src/parser/feature-parser";
+
+const parse = (content: string) =>
+  FeatureParser.parseFeatureContent(content, "anmeldung.feature");
+
+test.describe("Gherkin languages", () => {
+  test("parses German keywords and expands the outline", () => {
+    const feature = parse(`# language: de
+Funktionalität: Anmeldung
+  Grundlage:
+    Angenommen der Benutzer ist auf der Seite "login"
+
+  Szenariogrundriss: Anmelden als <benutzer>
+    Wenn ich "<benutzer>" in "Benutzername" eingebe
+    Und ich auf "Anmelden" klicke
+    Dann sollte ich "<meldung>" sehen
+    Aber ich sollte "Fehler" nicht sehen
+
+    Beispiele:
+      | benutzer | meldung    |
+      | alice    | Willkommen |
+      | bob      | Gesperrt   |
+`);
+
+    expect(feature.language).toBe("de");
+    expect(feature.name).toBe("Anmeldung");
+    expect(feature.background?.steps.map((step) => step.keyword)).toEqual([
+      "Given",
+    ]);
+    expect(feature.scenarios.map((scenario) => scenario.name)).toEqual([
+      "Anmelden als alice (Example 1)",
+      "Anmelden als bob (Example 2)",
+    ]);
+    expect(
+      feature.scenarios[1].steps.map((step) => [
+        step.keyword,
+        step.effectiveKeyword,
+        step.text,
+      ])
+    ).toEqual([
+      ["When", "When", 'ich "bob" in "Benutzername" eingebe'],
+      ["And", "When", 'ich auf "Anmelden" klicke'],
+      ["Then", "Then", 'sollte ich "Gesperrt" sehen'],
+      ["But", "Then", 'ich sollte "Fehler" nicht sehen'],
+    ]);
+    expect(feature.scenarios[1].outline?.parameters).toEqual({
+      benutzer: "bob",
+      meldung: "Gesperrt",
+    });
+  });
+
+  test("keeps English keywords without a language header", () => {
+    const feature = parse(`Feature: Login
+  Scenario: Log in
+    Given user is on the "login" page
+`);
+
+    expect(feature.language).toBe("en");
+    expect(feature.scenarios[0].steps[0].keyword).toBe("Given");
+  });
+
+  test("rejects an unknown language", () => {
+    expect(() =>
+      parse(`# language: xx
+Feature: Login
+`)
+    ).toThrow('Unknown Gherkin language "xx"');
+  });
+});
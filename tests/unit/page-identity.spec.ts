@@ -0,0 +1,93 @@
+import * as fs from "fs";
+import * as path from "path";
+import { expect, test } from "@playwright/test";
+import { pageIdentity } from "../../src/utils/page-identity";
+
+test.describe("PageIdentity", () => {
+  test.afterEach(() => {
+    pageIdentity.configure(
+      JSON.parse(
+        fs.readFileSync(
+          path.join(process.cwd(), "src", "config", "registry-routes.json"),
+          "utf8"
+        )
+      )
+    );
+  });
+
+  test("names pages by their URL path", () => {
+    pageIdentity.configure({});
+
+    expect(pageIdentity.pageName("https://shop.test/")).toBe("home");
+    expect(pageIdentity.pageName("https://shop.test/inventory.html")).toBe(
+      "inventory"
+    );
+    expect(pageIdentity.pageName("https://shop.test/admin/users?page=2")).toBe(
+      "admin_users"
+    );
+  });
+
+  test("uses the first matching route pattern", () => {
+    pageIdentity.configure({
+      routes: {
+        "/orders/new": "new_order",
+        "/orders/:id": "order_detail",
+        "/admin/*": "admin",
+      },
+    });
+
+    expect(pageIdentity.pageName("https://shop.test/orders/new")).toBe(
+      "new_order"
+    );
+    expect(pageIdentity.pageName("https://shop.test/orders/123")).toBe(
+      "order_detail"
+    );
+    expect(pageIdentity.pageName("https://shop.test/orders/456/")).toBe(
+      "order_detail"
+    );
+    expect(pageIdentity.pageName("https://shop.test/orders/1/items")).toBe(
+      "orders_1_items"
+    );
+    expect(pageIdentity.pageName("https://shop.test/admin/users/7")).toBe(
+      "admin"
+    );
+  });
+
+  test("reads the path of hash-routed URLs unless turned off", () => {
+    pageIdentity.configure({ routes: { "/orders/:id": "order_detail" } });
+
+    expect(pageIdentity.pageName("https://shop.test/#/orders/7")).toBe(
+      "order_detail"
+    );
+    expect(pageIdentity.pageName("https://shop.test/#!/settings")).toBe(
+      "settings"
+    );
+    expect(pageIdentity.pageName("https://shop.test/faq#main")).toBe("faq");
+
+    pageIdentity.configure({ hashRouting: false });
+    expect(pageIdentity.pageName("https://shop.test/#/orders/7")).toBe("home");
+  });
+
+  test("adds configured query parameters to the name", () => {
+    pageIdentity.configure({ queryParams: ["tab"] });
+
+    expect(
+      pageIdentity.pageName("https://shop.test/account?tab=Billing&ref=mail")
+    ).toBe("account_tab_billing");
+    expect(pageIdentity.pageName("https://shop.test/account?ref=mail")).toBe(
+      "account"
+    );
+  });
+
+  test("keeps keys matching a shared pattern in the shared registry", () => {
+    pageIdentity.configure({
+      shared: { common: ["*_in_header", "shopping_cart_*"] },
+    });
+
+    expect(pageIdentity.sharedRegistry("search_input_in_header")).toBe(
+      "common"
+    );
+    expect(pageIdentity.sharedRegistry("shopping_cart_link")).toBe("common");
+    expect(pageIdentity.sharedRegistry("login_button")).toBeUndefined();
+  });
+});
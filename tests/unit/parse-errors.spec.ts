@@ -0,0 +1,65 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect, test } from "@playwright/test";
+import { FeatureParser } from "../../src/parser/feature-parser";
+import { GherkinParseError } from "../../src/parser/gherkin-parse-error";
+
+test.describe("parseFeaturesCollectingErrors", () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "features-"));
+    fs.writeFileSync(
+      path.join(dir, "good.feature"),
+      `Feature: Good
+  Scenario: Works
+    Given user is on the "home" page
+    This line is ignored
+`
+    );
+    fs.writeFileSync(
+      path.join(dir, "bad.feature"),
+      `Feature: Bad
+  Scenario Outline: Broken
+    Given user is on the "<page>" page
+
+    Examples:
+      | page |
+      | home | extra |
+`
+    );
+  });
+
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test("returns the good features and every file's error", () => {
+    const { features, errors } = FeatureParser.parseFeaturesCollectingErrors([
+      dir,
+    ]);
+
+    expect(features.map((feature) => feature.name)).toEqual(["Good"]);
+    expect(features[0].scenarios[0].steps).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(GherkinParseError);
+    expect(errors[0]).toMatchObject({
+      filePath: path.join(dir, "bad.feature"),
+      line: 7,
+      column: 7,
+    });
+  });
+
+  test("reports a line without a scenario instead of throwing", () => {
+    const { features, errors } = FeatureParser.parseFeaturesCollectingErrors([
+      `${path.join(dir, "good.feature")}:1`,
+      path.join(dir, "bad.feature"),
+    ]);
+
+    expect(features).toEqual([]);
+    expect(errors.map((error) => error.reason)).toEqual([
+      "No scenario found at line(s) 1",
+      "Examples row has 2 cells, expected 1",
+    ]);
+    expect(errors[0].line).toBe(1);
+  });
+});
@@ -0,0 +1,108 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect, test } from "@playwright/test";
+import {
+  mergeRegistryPatch,
+  proposedRegistryEntry,
+  proposeRegistryEntry,
+} from "../../src/utils/registry-patch";
+import { registryStore } from "../../src/utils/registry-store";
+
+const readJson = (filePath: string) =>
+  JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+test.describe("mergeRegistryPatch", () => {
+  let dir: string;
+  let registriesDir: string;
+  let patchPath: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-patch-"));
+    registriesDir = path.join(dir, "registries");
+    patchPath = path.join(dir, "registries.patch.json");
+    fs.mkdirSync(registriesDir);
+    fs.writeFileSync(
+      path.join(registriesDir, "login.json"),
+      JSON.stringify({
+        username_input: "#user",
+        password_input: { candidates: [{ selector: "#pass" }] },
+        login_button: "#login",
+      })
+    );
+    fs.writeFileSync(
+      patchPath,
+      JSON.stringify({
+        login: {
+          username_input: { candidates: [{ selector: "#username" }] },
+          password_input: { candidates: [{ selector: "#password" }] },
+        },
+        checkout: {
+          pay_button: { candidates: [{ selector: "#pay" }] },
+        },
+      })
+    );
+  });
+
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test("lists each change without writing on a dry run", () => {
+    const before = fs.readFileSync(path.join(registriesDir, "login.json"));
+
+    const changes = mergeRegistryPatch(registriesDir, {
+      dryRun: true,
+      patchPath,
+    });
+
+    expect(changes).toEqual([
+      'login.json "username_input": #user → #username',
+      'login.json "password_input": #pass → #password',
+      'checkout.json "pay_button": new, #pay',
+    ]);
+    expect(fs.readFileSync(path.join(registriesDir, "login.json"))).toEqual(
+      before
+    );
+    expect(fs.existsSync(path.join(registriesDir, "checkout.json"))).toBe(
+      false
+    );
+    expect(fs.existsSync(patchPath)).toBe(true);
+  });
+
+  test("writes the proposed entries, keeps the others and deletes the patch", () => {
+    mergeRegistryPatch(registriesDir, { patchPath });
+
+    expect(readJson(path.join(registriesDir, "login.json"))).toEqual({
+      username_input: { candidates: [{ selector: "#username" }] },
+      password_input: { candidates: [{ selector: "#password" }] },
+      login_button: "#login",
+    });
+    expect(readJson(path.join(registriesDir, "checkout.json"))).toEqual({
+      pay_button: { candidates: [{ selector: "#pay" }] },
+    });
+    expect(fs.existsSync(patchPath)).toBe(false);
+  });
+
+  test("merges entries proposed during a run into the patch", () => {
+    proposeRegistryEntry(
+      "login",
+      "login_button",
+      { candidates: [{ selector: "#sign-in" }] },
+      patchPath
+    );
+
+    expect(proposedRegistryEntry("login", "login_button", patchPath)).toEqual({
+      candidates: [{ selector: "#sign-in" }],
+    });
+    registryStore.flush();
+    expect(Object.keys(readJson(patchPath).login)).toEqual([
+      "username_input",
+      "password_input",
+      "login_button",
+    ]);
+
+    mergeRegistryPatch(registriesDir, { patchPath });
+    expect(
+      readJson(path.join(registriesDir, "login.json")).login_button
+    ).toEqual({ candidates: [{ selector: "#sign-in" }] });
+  });
+});
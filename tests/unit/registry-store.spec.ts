@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect, test } from "@playwright/test";
+import { readJsonFile, registryStore } from "../../src/utils/registry-store";
+
+const readJson = (filePath: string) =>
+  JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+test.describe("RegistryStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-store-"));
+    filePath = path.join(dir, "login.json");
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({ username_input: "#user", login_button: "#login" })
+    );
+  });
+
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test("keeps changes in memory until flushed", () => {
+    registryStore.set(filePath, "username_input", "#username");
+
+    expect(registryStore.get(filePath, "username_input")).toBe("#username");
+    expect(readJson(filePath).username_input).toBe("#user");
+
+    registryStore.flush();
+    expect(readJson(filePath)).toEqual({
+      username_input: "#username",
+      login_button: "#login",
+    });
+  });
+
+  test("merges its changed keys over keys another process wrote", () => {
+    registryStore.set(filePath, "username_input", "#username");
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({
+        username_input: "#user",
+        login_button: "#sign-in",
+        password_input: "#password",
+      })
+    );
+
+    // The newer file is reloaded with the unflushed change on top
+    expect(registryStore.read(filePath)).toEqual({
+      username_input: "#username",
+      login_button: "#sign-in",
+      password_input: "#password",
+    });
+
+    registryStore.flush();
+    expect(readJson(filePath)).toEqual({
+      username_input: "#username",
+      login_button: "#sign-in",
+      password_input: "#password",
+    });
+  });
+
+  test("creates a registry file that does not exist yet", () => {
+    const newPath = path.join(dir, "pages", "checkout.json");
+
+    registryStore.set(newPath, "pay_button", { candidates: [] });
+    registryStore.flush();
+
+    expect(readJson(newPath)).toEqual({ pay_button: { candidates: [] } });
+  });
+});
+
+test.describe("readJsonFile", () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-store-"));
+  });
+
+  test.afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test("moves a file that does not parse aside and reads it as empty", () => {
+    const filePath = path.join(dir, "broken.json");
+    fs.writeFileSync(filePath, '{ "username_input": "#us');
+
+    expect(readJsonFile(filePath)).toEqual({});
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(
+      fs
+        .readdirSync(dir)
+        .some((name) => name.startsWith("broken.json.corrupt-"))
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { expect, test } from "@playwright/test";
+import { FeatureParser } from "../../src/parser/feature-parser";
+
+const parse = (content: string) =>
+  FeatureParser.parseFeatureContent(content, "rules.feature");
+
+test.describe("Rule blocks", () => {
+  const feature = parse(`@checkout
+Feature: Checkout
+  Background:
+    Given user is on the "cart" page
+
+  Scenario: Outside any rule
+    Then user should see "Cart"
+
+  @guest
+  Rule: Payment
+    Background:
+      Given user is logged out
+
+    Scenario: Guest pays
+      Then user should see "Guest checkout"
+
+  @member
+  Rule: Payment
+    Background:
+      Given user is logged in
+
+    Scenario: Member pays
+      Then user should see "Saved cards"
+
+  Rule:
+    Scenario: Unnamed rule
+      Then user should see "Total"
+`);
+
+  test("keeps rules with the same name apart", () => {
+    expect(feature.rules.map((rule) => rule.name)).toEqual([
+      "Payment",
+      "Payment",
+      "",
+    ]);
+    expect(feature.scenarios.map((scenario) => scenario.ruleIndex)).toEqual([
+      undefined,
+      0,
+      1,
+      2,
+    ]);
+
+    const [, guest, member] = feature.scenarios;
+    expect(
+      feature.rules[guest.ruleIndex!].background?.steps.map((step) => step.text)
+    ).toEqual(["user is logged out"]);
+    expect(
+      feature.rules[member.ruleIndex!].background?.steps.map(
+        (step) => step.text
+      )
+    ).toEqual(["user is logged in"]);
+  });
+
+  test("applies feature and rule tags to each rule's own scenarios", () => {
+    const [outside, guest, member, unnamed] = feature.scenarios;
+    expect(FeatureParser.getEffectiveTags(feature, outside)).toEqual([
+      "@checkout",
+    ]);
+    expect(FeatureParser.getEffectiveTags(feature, guest)).toEqual([
+      "@checkout",
+      "@guest",
+    ]);
+    expect(FeatureParser.getEffectiveTags(feature, member)).toEqual([
+      "@checkout",
+      "@member",
+    ]);
+    expect(FeatureParser.getEffectiveTags(feature, unnamed)).toEqual([
+      "@checkout",
+    ]);
+  });
+
+  test("keeps the feature background separate from rule backgrounds", () => {
+    expect(feature.background?.steps.map((step) => step.text)).toEqual([
+      'user is on the "cart" page',
+    ]);
+    expect(feature.rules[2].background).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { expect, test } from "@playwright/test";
+import { FeatureParser } from "../../src/parser/feature-parser";
+
+const parse = (content: string) =>
+  FeatureParser.parseFeatureContent(content, "outline.feature");
+
+test.describe("Scenario Outline", () => {
+  test("expands one scenario per Examples row", () => {
+    const feature = parse(`Feature: Login
+  Scenario Outline: Login as <user>
+    Given user fill "<user>" in "Username"
+    Then user should see "<message>"
+
+    Examples: Users
+      | user  | message  |
+      | alice | Welcome  |
+      | bob   | Locked   |
+`);
+
+    expect(feature.scenarios.map((scenario) => scenario.name)).toEqual([
+      "Login as alice (Example 1)",
+      "Login as bob (Example 2)",
+    ]);
+    expect(feature.scenarios[1].steps.map((step) => step.text)).toEqual([
+      'user fill "bob" in "Username"',
+      'user should see "Locked"',
+    ]);
+    expect(feature.scenarios[1].outline).toEqual({
+      name: "Login as <user>",
+      line: 2,
+      examplesName: "Users",
+      rowIndex: 2,
+      parameters: { user: "bob", message: "Locked" },
+    });
+    // Each example runs from its own row's line
+    expect(feature.scenarios.map((scenario) => scenario.line)).toEqual([8, 9]);
+  });
+
+  test("combines several Examples blocks and their tags", () => {
+    const feature = parse(`Feature: Search
+  @search
+  Scenario Outline: Search for <term>
+    When user fill "<term>" in "Search"
+
+    @smoke
+    Examples:
+      | term |
+      | shoe |
+
+    @regression
+    Examples:
+      | term |
+      | hat  |
+`);
+
+    expect(
+      feature.scenarios.map((scenario) => [scenario.name, scenario.tags])
+    ).toEqual([
+      ["Search for shoe (Example 1)", ["@search", "@smoke"]],
+      ["Search for hat (Example 2)", ["@search", "@regression"]],
+    ]);
+  });
+
+  test("substitutes parameters in data tables and docstrings", () => {
+    const feature = parse(`Feature: Forms
+  Scenario Outline: Fill the form
+    When user fill the following fields
+      | field | value  |
+      | Name  | <name> |
+    And user enter the note
+      """
+      Hello <name>
+      """
+
+    Examples:
+      | name |
+      | Ann  |
+`);
+
+    const [fill, note] = feature.scenarios[0].steps;
+    expect(fill.dataTable?.rows).toEqual([
+      ["field", "value"],
+      ["Name", "Ann"],
+    ]);
+    expect(note.docString?.content).toBe("Hello Ann");
+  });
+
+  test("rejects an Examples row with the wrong number of cells", () => {
+    expect(() =>
+      parse(`Feature: Broken
+  Scenario Outline: Open <page>
+    Given user is on the "<page>" page
+
+    Examples:
+      | page |
+      | home | extra |
+`)
+    ).toThrow(/Examples row has 2 cells, expected 1/);
+  });
+});
@@ -0,0 +1,62 @@
+import { expect, test } from "@playwright/test";
+import { FeatureParser } from "../../src/parser/feature-parser";
+
+const parse = (content: string) =>
+  FeatureParser.parseFeatureContent(content, "arguments.feature");
+
+test.describe("Step arguments", () => {
+  test("attaches a data table after comment and blank lines", () => {
+    const feature = parse(`Feature: Forms
+  Scenario: Fill the form
+    When user fill the following fields
+      # one row per field
+
+      | Name  | Ann |
+      # email is optional
+      | Email | a@example.com |
+    Then user should see "Saved"
+`);
+
+    const [fill, assertion] = feature.scenarios[0].steps;
+    expect(fill.dataTable).toEqual({
+      rows: [
+        ["Name", "Ann"],
+        ["Email", "a@example.com"],
+      ],
+      line: 6,
+    });
+    expect(assertion.text).toBe('user should see "Saved"');
+  });
+
+  test("attaches a docstring after a comment line", () => {
+    const feature = parse(`Feature: Notes
+  Scenario: Write a note
+    When user enter the note
+      # the note body
+      """markdown
+        # Title
+      Body with \\"\\"\\" quotes
+      """
+`);
+
+    expect(feature.scenarios[0].steps[0].docString).toEqual({
+      content: '  # Title\nBody with """ quotes',
+      mediaType: "markdown",
+      line: 5,
+    });
+  });
+
+  test("leaves steps without an argument alone", () => {
+    const feature = parse(`Feature: Plain
+  Scenario: No arguments
+    Given user is on the "home" page
+    # just a comment
+
+    Then user should see "Welcome"
+`);
+
+    const steps = feature.scenarios[0].steps;
+    expect(steps).toHaveLength(2);
+    expect(steps.some((step) => step.dataTable || step.docString)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { expect, test } from "@playwright/test";
+import { Step } from "../../src/types/feature-types";
+import { stepRegistry } from "../../src/utils/step-registry";
+
+const step = (text: string, keyword: Step["keyword"] = "Given"): Step => ({
+  keyword,
+  effectiveKeyword: keyword === "Then" ? "Then" : "Given",
+  text,
+  line: 1,
+});
+
+const noop = () => {};
+
+test.describe("StepRegistry", () => {
+  test.beforeEach(() => stepRegistry.clear());
+
+  test("converts Cucumber expression parameters", () => {
+    stepRegistry.register(
+      "Given",
+      "user has {int} items at {float} each named {string} by {word}",
+      noop
+    );
+
+    const match = stepRegistry.match(
+      step(`user has 3 items at 4.50 each named "Blue shirt" by acme`)
+    );
+    expect(match?.args).toEqual([3, 4.5, "Blue shirt", "acme"]);
+  });
+
+  test("supports optional text, alternatives and anonymous parameters", () => {
+    stepRegistry.register(
+      "Given",
+      "user has {int} item(s) in the cart/basket",
+      noop
+    );
+    stepRegistry.register("Given", "the note says {}", noop);
+
+    expect(
+      stepRegistry.match(step("user has 1 item in the basket"))?.args
+    ).toEqual([1]);
+    expect(
+      stepRegistry.match(step("user has 2 items in the cart"))?.args
+    ).toEqual([2]);
+    expect(stepRegistry.match(step("user has 2 items in the bag"))).toBeNull();
+    expect(stepRegistry.match(step("the note says (see below)"))?.args).toEqual(
+      ["(see below)"]
+    );
+  });
+
+  test("escapes regex characters in literal text", () => {
+    stepRegistry.register("Given", "the price is $5.00 (incl. tax)", noop);
+
+    expect(
+      stepRegistry.match(step("the price is $5.00 incl. tax"))
+    ).not.toBeNull();
+    expect(stepRegistry.match(step("the price is $5x00"))).toBeNull();
+  });
+
+  test("rejects unknown parameter types", () => {
+    expect(() => stepRegistry.register("Given", "user is {age}", noop)).toThrow(
+      "Unknown parameter type {age}"
+    );
+  });
+
+  test("matches global and sticky regexes on every step", () => {
+    stepRegistry.register("When", /user logs in as (\w+)/g, noop);
+    stepRegistry.register("When", /^user logs out$/y, noop);
+
+    for (let i = 0; i < 3; i++) {
+      expect(stepRegistry.match(step("user logs in as admin"))?.args).toEqual([
+        "admin",
+      ]);
+      expect(stepRegistry.match(step("user logs out"))).not.toBeNull();
+    }
+  });
+
+  test("passes the data table after the parameters", () => {
+    stepRegistry.register("Given", "these users exist in {word}", noop);
+
+    const dataTable = { rows: [["name"], ["ann"]], line: 2 };
+    const match = stepRegistry.match({
+      ...step("these users exist in staging"),
+      dataTable,
+    });
+    expect(match?.args).toEqual(["staging", dataTable]);
+  });
+
+  test("chooses between equal patterns by the effective keyword", () => {
+    stepRegistry.register("Given", "the cart is empty", noop);
+    stepRegistry.register("Then", "the cart is empty", noop);
+
+    expect(
+      stepRegistry.match(step("the cart is empty", "Then"))?.definition.keyword
+    ).toBe("Then");
+  });
+
+  test("reports ambiguous steps", () => {
+    stepRegistry.register("Given", "user has {int} items", noop);
+    stepRegistry.register("Given", /^user has (\d+) items$/, noop);
+
+    expect(() => stepRegistry.match(step("user has 2 items"))).toThrow(
+      /Ambiguous step/
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { expect, test } from "@playwright/test";
+import {
+  createTagFilter,
+  parseTagExpression,
+  TagExpressionError,
+} from "../../src/utils/tag-expression";
+
+test.describe("parseTagExpression", () => {
+  test("gives not, and, or their usual precedence", () => {
+    const expression = parseTagExpression("@a or @b and not @c");
+    expect(expression.toString()).toBe("(@a or (@b and not @c))");
+    expect(expression.evaluate(["@a", "@c"])).toBe(true);
+    expect(expression.evaluate(["@b"])).toBe(true);
+    expect(expression.evaluate(["@b", "@c"])).toBe(false);
+  });
+
+  test("groups with parentheses", () => {
+    const expression = parseTagExpression("@smoke and not (@wip or @flaky)");
+    expect(expression.evaluate(["@smoke"])).toBe(true);
+    expect(expression.evaluate(["@smoke", "@flaky"])).toBe(false);
+    expect(expression.evaluate(["@wip"])).toBe(false);
+  });
+
+  test("compares tags with or without the leading @", () => {
+    expect(parseTagExpression("smoke").evaluate(["@smoke"])).toBe(true);
+    expect(parseTagExpression("@smoke").evaluate(["smoke"])).toBe(true);
+  });
+
+  test("keeps escaped parentheses in tag names", () => {
+    expect(parseTagExpression("@a\\(1\\)").evaluate(["@a(1)"])).toBe(true);
+  });
+
+  test("matches everything when empty", () => {
+    expect(parseTagExpression("  ").evaluate([])).toBe(true);
+  });
+
+  for (const [expression, message] of [
+    ["@a and", "unexpected end of expression"],
+    ["(@a or @b", 'missing ")" (at position 10)'],
+    ["@a @b", 'unexpected "@b" (at position 4)'],
+    ["or @a", 'unexpected "or" (at position 1)'],
+  ]) {
+    test(`rejects "${expression}"`, () => {
+      expect(() => parseTagExpression(expression)).toThrow(TagExpressionError);
+      expect(() => parseTagExpression(expression)).toThrow(message);
+    });
+  }
+});
+
+test.describe("createTagFilter", () => {
+  test("ORs include entries and rejects any exclude tag", () => {
+    const filter = createTagFilter(["@smoke", "@api and @fast"], ["@wip"]);
+    expect(filter.evaluate(["@smoke"])).toBe(true);
+    expect(filter.evaluate(["@api", "@fast"])).toBe(true);
+    expect(filter.evaluate(["@api"])).toBe(false);
+    expect(filter.evaluate(["@smoke", "@wip"])).toBe(false);
+  });
+
+  test("matches everything without tags", () => {
+    expect(createTagFilter([], [""]).evaluate(["@anything"])).toBe(true);
+  });
+
+  test("reports the entry the user typed", () => {
+    expect(() => createTagFilter(["@smoke", "not"])).toThrow(
+      'Invalid tag expression "not"'
+    );
+  });
+});